@@ -0,0 +1,118 @@
+import { useCallback, useEffect } from "react";
+import { useFetcher } from "@remix-run/react";
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Checkbox,
+  Badge,
+} from "@shopify/polaris";
+import type { CatalogSyncStatus, MatchKey } from "~/types";
+
+interface CatalogIndexCardProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  matchKey: MatchKey;
+  disabled?: boolean;
+}
+
+// How often a running export is checked on
+const SYNC_POLL_INTERVAL = 5000;
+
+const STATUS_BADGES: Record<CatalogSyncStatus["status"], { label: string; tone?: "success" | "critical" | "info" }> = {
+  none: { label: "Not synced" },
+  running: { label: "Syncing", tone: "info" },
+  completed: { label: "Synced", tone: "success" },
+  failed: { label: "Failed", tone: "critical" },
+};
+
+export function CatalogIndexCard({
+  enabled,
+  onEnabledChange,
+  matchKey,
+  disabled = false,
+}: CatalogIndexCardProps) {
+  const statusFetcher = useFetcher<CatalogSyncStatus>();
+  const syncFetcher = useFetcher<CatalogSyncStatus>();
+  const { load: loadStatus } = statusFetcher;
+
+  const status = statusFetcher.data;
+  const isRunning = status?.status === "running";
+  // Starting an export can fail before anything is stored, so that error only comes back here
+  const failed = syncFetcher.data?.status === "failed" ? syncFetcher.data : status;
+  const error = failed?.status === "failed" ? failed.error : undefined;
+
+  useEffect(() => {
+    loadStatus("/app/catalog");
+  }, [loadStatus]);
+
+  useEffect(() => {
+    if (syncFetcher.state === "idle" && syncFetcher.data) {
+      loadStatus("/app/catalog");
+    }
+  }, [syncFetcher.state, syncFetcher.data, loadStatus]);
+
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => loadStatus("/app/catalog"), SYNC_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isRunning, loadStatus]);
+
+  const handleSync = useCallback(() => {
+    syncFetcher.submit({}, { method: "POST", action: "/app/catalog" });
+  }, [syncFetcher]);
+
+  const supported = matchKey === "sku" || matchKey === "barcode";
+  const badge = STATUS_BADGES[status?.status ?? "none"];
+
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <InlineStack align="space-between" blockAlign="center">
+          <Text as="h2" variant="headingMd">
+            Catalog Index
+          </Text>
+          <Badge tone={badge.tone}>{badge.label}</Badge>
+        </InlineStack>
+
+        <Text as="p" variant="bodySm" tone="subdued">
+          {status?.status === "completed"
+            ? `${status.variantCount} variants indexed${
+                status.completedAt ? ` on ${new Date(status.completedAt).toLocaleString()}` : ""
+              }`
+            : "Export all variants once so large catalogs can be matched without searching Shopify for every SKU"}
+        </Text>
+
+        {error && (
+          <Text as="p" variant="bodySm" tone="critical">
+            {error}
+          </Text>
+        )}
+
+        <Checkbox
+          label="Match SKUs and barcodes using the catalog index"
+          checked={enabled}
+          onChange={onEnabledChange}
+          disabled={disabled || !supported}
+          helpText={
+            supported
+              ? "Falls back to live Shopify queries for SKUs not in the index, or when it is out of date"
+              : "Only available when matching by SKU or barcode"
+          }
+        />
+
+        <InlineStack align="end">
+          <Button
+            onClick={handleSync}
+            loading={syncFetcher.state !== "idle" || isRunning}
+            disabled={disabled}
+          >
+            {status?.status === "completed" ? "Sync again" : "Sync catalog"}
+          </Button>
+        </InlineStack>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -0,0 +1,198 @@
+import { useMemo, useState } from "react";
+import {
+  Card,
+  BlockStack,
+  Text,
+  Select,
+  TextField,
+  InlineStack,
+  Button,
+  Box,
+  Checkbox,
+} from "@shopify/polaris";
+import type { FilenamePattern } from "~/types";
+import {
+  formatPositionVocabulary,
+  parseFilename,
+  parsePositionVocabulary,
+  parseNumericPrefix,
+  splitEntryPath,
+  validateFilenamePattern,
+} from "~/utils/fileParser";
+
+interface FilenamePatternCardProps {
+  pattern: FilenamePattern;
+  onChange: (pattern: FilenamePattern) => void;
+  onSave: () => void;
+  saving?: boolean;
+  disabled?: boolean;
+}
+
+const MODE_OPTIONS = [
+  { label: "Default (SKU-NN, last hyphen)", value: "default" },
+  { label: "Template", value: "template" },
+  { label: "Regex (advanced)", value: "regex" },
+];
+
+const FOLDER_SORT_OPTIONS = [
+  { label: "File order in folder", value: "order" },
+  { label: "Numeric filename prefix (01_front.jpg)", value: "prefix" },
+];
+
+const TEMPLATE_EXAMPLES = ["{sku}_{position}", "{sku} ({position})", "{position}_{sku}"];
+
+export function FilenamePatternCard({
+  pattern,
+  onChange,
+  onSave,
+  saving = false,
+  disabled = false,
+}: FilenamePatternCardProps) {
+  const [testFilename, setTestFilename] = useState("SUMMER-DRESS-RED-01.jpg");
+
+  const [vocabularyText, setVocabularyText] = useState(() =>
+    formatPositionVocabulary(pattern.positionVocabulary)
+  );
+  const [vocabularyError, setVocabularyError] = useState<string | null>(null);
+
+  const patternError = validateFilenamePattern(pattern);
+
+  const handleVocabularyChange = (value: string) => {
+    setVocabularyText(value);
+    try {
+      onChange({ ...pattern, positionVocabulary: parsePositionVocabulary(value) });
+      setVocabularyError(null);
+    } catch (error) {
+      setVocabularyError(error instanceof Error ? error.message : "Invalid vocabulary");
+    }
+  };
+
+  // Live preview of how the current pattern parses the test filename
+  const preview = useMemo(() => {
+    if (!testFilename.trim() || patternError) return null;
+    try {
+      // Paths like "SKU123/02_back.jpg" preview the ZIP folder rule
+      const { folder, filename } = splitEntryPath(testFilename.trim());
+      if (pattern.folderAsSku && folder) {
+        const sortOrder = pattern.folderSortBy === "prefix" ? parseNumericPrefix(filename) : 1;
+        return { sku: folder.toUpperCase(), sortOrder, error: undefined };
+      }
+
+      const { sku, sortOrder, positionLabel } = parseFilename(testFilename.trim(), pattern);
+      return { sku, sortOrder, positionLabel, error: undefined };
+    } catch (error) {
+      return { sku: "", sortOrder: 0, error: error instanceof Error ? error.message : "Unknown parsing error" };
+    }
+  }, [testFilename, pattern, patternError]);
+
+  const handleModeChange = (mode: string) => {
+    onChange({ ...pattern, mode: mode as FilenamePattern["mode"] });
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text as="h2" variant="headingMd">
+          Filename Pattern
+        </Text>
+
+        <Select
+          label="Pattern type"
+          options={MODE_OPTIONS}
+          value={pattern.mode}
+          onChange={handleModeChange}
+          disabled={disabled}
+        />
+
+        {pattern.mode === "template" && (
+          <TextField
+            label="Template"
+            value={pattern.template}
+            onChange={(value) => onChange({ ...pattern, template: value })}
+            helpText={`Tokens: {sku}, {position}, {any}. Examples: ${TEMPLATE_EXAMPLES.join(", ")}`}
+            error={patternError ?? undefined}
+            disabled={disabled}
+            autoComplete="off"
+            monospaced
+          />
+        )}
+
+        {pattern.mode === "regex" && (
+          <TextField
+            label="Regular expression"
+            value={pattern.regex}
+            onChange={(value) => onChange({ ...pattern, regex: value })}
+            helpText="Matched against the filename without extension. Use named groups (?<sku>...) and (?<position>...)"
+            error={patternError ?? undefined}
+            disabled={disabled}
+            autoComplete="off"
+            monospaced
+          />
+        )}
+
+        <TextField
+          label="Position words"
+          value={vocabularyText}
+          onChange={handleVocabularyChange}
+          helpText='Words accepted instead of a sort number, e.g., "front=1, back=2". "detail2" is the position after "detail". Words also become the alt text suffix.'
+          error={vocabularyError ?? undefined}
+          disabled={disabled}
+          autoComplete="off"
+          multiline={2}
+        />
+
+        <Checkbox
+          label="Use ZIP folder name as SKU"
+          helpText="For archives like SKU123/front.jpg, SKU123/back.jpg"
+          checked={pattern.folderAsSku}
+          onChange={(checked) => onChange({ ...pattern, folderAsSku: checked })}
+          disabled={disabled}
+        />
+        {pattern.folderAsSku && (
+          <Box paddingInlineStart="600">
+            <Select
+              label="Sort order within folder"
+              options={FOLDER_SORT_OPTIONS}
+              value={pattern.folderSortBy}
+              onChange={(value) =>
+                onChange({ ...pattern, folderSortBy: value as FilenamePattern["folderSortBy"] })
+              }
+              disabled={disabled}
+            />
+          </Box>
+        )}
+
+        <Box paddingBlockStart="200">
+          <BlockStack gap="200">
+            <TextField
+              label="Test this filename"
+              helpText={pattern.folderAsSku ? "Include the folder to test the ZIP folder rule, e.g., SKU123/01_front.jpg" : undefined}
+              value={testFilename}
+              onChange={setTestFilename}
+              disabled={disabled}
+              autoComplete="off"
+            />
+            {preview && (
+              preview.error ? (
+                <Text as="p" variant="bodySm" tone="critical">
+                  {preview.error}
+                </Text>
+              ) : (
+                <Text as="p" variant="bodySm" tone="success">
+                  SKU: <strong>{preview.sku}</strong> | Sort: <strong>{preview.sortOrder}</strong>
+                  {"positionLabel" in preview && preview.positionLabel && ` (from "${preview.positionLabel}")`}
+                </Text>
+              )
+            )}
+          </BlockStack>
+        </Box>
+
+        <InlineStack align="end">
+          <Button onClick={onSave} loading={saving} disabled={disabled || !!patternError || !!vocabularyError}>
+            Save for this shop
+          </Button>
+        </InlineStack>
+      </BlockStack>
+    </Card>
+  );
+}
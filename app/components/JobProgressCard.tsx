@@ -0,0 +1,97 @@
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Spinner,
+  ProgressBar,
+  Badge,
+} from "@shopify/polaris";
+import type { UploadEvent, UploadJobStatus } from "~/types";
+
+interface JobProgressCardProps {
+  job?: UploadJobStatus; // Undefined while files are still being sent to the server
+  directUpload?: { done: number; total: number }; // Browser uploads to Shopify before the job exists
+  dryRun: boolean;
+  fileCount: number;
+}
+
+const EVENT_LABELS: Record<UploadEvent["type"], { label: string; tone?: "success" | "critical" | "warning" | "info" }> = {
+  staged: { label: "Staged" },
+  uploaded: { label: "Uploaded", tone: "info" },
+  "media-created": { label: "Media created", tone: "info" },
+  "media-ready": { label: "Ready", tone: "success" },
+  failed: { label: "Failed", tone: "critical" },
+  skipped: { label: "Skipped", tone: "warning" },
+  duplicate: { label: "Duplicate" },
+  "dry-run": { label: "Checked", tone: "info" },
+};
+
+export function JobProgressCard({ job, directUpload, dryRun, fileCount }: JobProgressCardProps) {
+  const total = job?.total ?? directUpload?.total ?? fileCount;
+  const processed = job?.processed ?? directUpload?.done ?? 0;
+  const progress = total > 0 ? (processed / total) * 100 : 0;
+
+  let statusText: string;
+  if (directUpload) {
+    statusText = `Sending file ${Math.min(directUpload.done + 1, directUpload.total)} of ${directUpload.total} to Shopify...`;
+  } else if (!job) {
+    statusText = dryRun
+      ? `Submitting ${fileCount} file${fileCount !== 1 ? "s" : ""}...`
+      : `Sending ${fileCount} file${fileCount !== 1 ? "s" : ""} to the server...`;
+  } else if (job.status === "pending") {
+    statusText = "Waiting for the upload worker...";
+  } else {
+    const current = Math.min(processed + 1, total);
+    statusText = dryRun
+      ? `Validating file ${current} of ${total}...`
+      : `Uploading file ${current} of ${total}...`;
+  }
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <div style={{ display: "flex", justifyContent: "center", padding: "20px 0" }}>
+          <Spinner size="large" />
+        </div>
+        <Text as="p" variant="headingMd" alignment="center">
+          {dryRun ? "Validating files..." : "Uploading images..."}
+        </Text>
+        <Text as="p" variant="bodyMd" alignment="center" fontWeight="semibold">
+          {statusText}
+        </Text>
+        <ProgressBar progress={progress} size="small" tone="primary" />
+        <Text as="p" variant="bodySm" tone="subdued" alignment="center">
+          {processed} of {total} files done ({Math.round(progress)}%)
+        </Text>
+
+        {job && job.events.length > 0 && (
+          <div
+            style={{
+              padding: "8px",
+              background: "var(--p-color-bg-surface-secondary)",
+              borderRadius: "8px",
+              maxHeight: "200px",
+              overflowY: "auto",
+            }}
+          >
+            <BlockStack gap="100">
+              {job.events.map((event, index) => (
+                <InlineStack key={index} gap="200" blockAlign="center" wrap={false}>
+                  <Text as="span" variant="bodySm" tone="subdued">
+                    {new Date(event.createdAt).toLocaleTimeString()}
+                  </Text>
+                  <Badge tone={EVENT_LABELS[event.type].tone}>{EVENT_LABELS[event.type].label}</Badge>
+                  <Text as="span" variant="bodySm" truncate>
+                    {event.filename}
+                    {event.message ? ` - ${event.message}` : ""}
+                  </Text>
+                </InlineStack>
+              ))}
+            </BlockStack>
+          </div>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useCallback, useMemo } from "react";
+import { useCallback } from "react";
 import {
   Card,
   IndexTable,
@@ -8,11 +8,13 @@ import {
   BlockStack,
   InlineStack,
   Box,
+  Thumbnail,
   useIndexResourceState,
 } from "@shopify/polaris";
 import { ExportIcon } from "@shopify/polaris-icons";
-import type { ProcessingResult } from "~/types";
+import type { MatchKey, ProcessingResult } from "~/types";
 import { generateCSV, generateCSVFilename } from "~/utils/csvExport";
+import { getMatchKeyLabel } from "~/utils/matchKeys";
 
 interface ResultsTableProps {
   results: ProcessingResult[];
@@ -22,10 +24,19 @@ interface ResultsTableProps {
     failed: number;
     skipped: number;
     dryRun?: number;
+    duplicate?: number;
   };
+  matchKey?: MatchKey;
+  previews?: Record<string, string>; // Dry-run thumbnails by filename
 }
 
-export function ResultsTable({ results, summary }: ResultsTableProps) {
+function formatFileSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+}
+
+export function ResultsTable({ results, summary, matchKey = "sku", previews }: ResultsTableProps) {
   const resourceName = {
     singular: "result",
     plural: "results",
@@ -35,7 +46,7 @@ export function ResultsTable({ results, summary }: ResultsTableProps) {
     useIndexResourceState(results.map((_, i) => String(i)));
 
   const handleExportCSV = useCallback(() => {
-    const csvContent = generateCSV(results);
+    const csvContent = generateCSV(results, matchKey);
     const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
@@ -45,7 +56,7 @@ export function ResultsTable({ results, summary }: ResultsTableProps) {
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-  }, [results]);
+  }, [results, matchKey]);
 
   const getStatusBadge = (status: ProcessingResult["status"]) => {
     switch (status) {
@@ -57,11 +68,15 @@ export function ResultsTable({ results, summary }: ResultsTableProps) {
         return <Badge tone="warning">Skipped</Badge>;
       case "dry-run":
         return <Badge tone="info">Dry Run</Badge>;
+      case "duplicate":
+        return <Badge>Duplicate</Badge>;
       default:
         return <Badge>{status}</Badge>;
     }
   };
 
+  const thumbnails = results.map((result) => result.imageUrl ?? previews?.[result.filename]);
+
   const rowMarkup = results.map((result, index) => (
     <IndexTable.Row
       id={String(index)}
@@ -70,9 +85,21 @@ export function ResultsTable({ results, summary }: ResultsTableProps) {
       selected={selectedResources.includes(String(index))}
     >
       <IndexTable.Cell>
-        <Text as="span" variant="bodySm" fontWeight="semibold">
-          {result.filename}
-        </Text>
+        <InlineStack gap="200" blockAlign="center" wrap={false}>
+          {thumbnails[index] && (
+            <Thumbnail source={thumbnails[index]} alt={result.filename} size="small" />
+          )}
+          <BlockStack gap="050">
+            <Text as="span" variant="bodySm" fontWeight="semibold">
+              {result.filename}
+            </Text>
+            {result.originalSize !== undefined && result.optimizedSize !== undefined && (
+              <Text as="span" variant="bodySm" tone="subdued">
+                {formatFileSize(result.originalSize)} → {formatFileSize(result.optimizedSize)}
+              </Text>
+            )}
+          </BlockStack>
+        </InlineStack>
       </IndexTable.Cell>
       <IndexTable.Cell>
         <Text as="span" variant="bodySm">
@@ -87,14 +114,29 @@ export function ResultsTable({ results, summary }: ResultsTableProps) {
         )}
       </IndexTable.Cell>
       <IndexTable.Cell>
-        <Text as="span" variant="bodySm">
-          {result.productTitle || "-"}
-        </Text>
+        <BlockStack gap="050">
+          <Text as="span" variant="bodySm">
+            {result.productTitle || "-"}
+          </Text>
+          {result.variantTitle && (
+            <Text as="span" variant="bodySm" tone="subdued">
+              Variant: {result.variantTitle}
+              {result.variantImageLinked ? " (image set)" : ""}
+            </Text>
+          )}
+        </BlockStack>
+      </IndexTable.Cell>
+      <IndexTable.Cell>
+        <InlineStack gap="100" wrap={false}>
+          {getStatusBadge(result.status)}
+          {result.status === "success" && result.mediaStatus === "PROCESSING" && (
+            <Badge tone="attention">Still processing</Badge>
+          )}
+        </InlineStack>
       </IndexTable.Cell>
-      <IndexTable.Cell>{getStatusBadge(result.status)}</IndexTable.Cell>
       <IndexTable.Cell>
         <Text as="span" variant="bodySm" tone={result.errorDetails ? "critical" : "subdued"}>
-          {result.errorDetails || "-"}
+          {result.errorDetails || result.message || "-"}
         </Text>
       </IndexTable.Cell>
     </IndexTable.Row>
@@ -190,6 +232,23 @@ export function ResultsTable({ results, summary }: ResultsTableProps) {
               </BlockStack>
             </Box>
           )}
+          {summary.duplicate !== undefined && summary.duplicate > 0 && (
+            <Box
+              padding="300"
+              background="bg-surface-secondary"
+              borderRadius="200"
+              minWidth="100px"
+            >
+              <BlockStack gap="100">
+                <Text as="p" variant="headingLg" alignment="center">
+                  {summary.duplicate}
+                </Text>
+                <Text as="p" variant="bodySm" tone="subdued" alignment="center">
+                  Duplicates
+                </Text>
+              </BlockStack>
+            </Box>
+          )}
         </InlineStack>
 
         <IndexTable
@@ -201,7 +260,7 @@ export function ResultsTable({ results, summary }: ResultsTableProps) {
           onSelectionChange={handleSelectionChange}
           headings={[
             { title: "Filename" },
-            { title: "Detected SKU" },
+            { title: `Detected ${getMatchKeyLabel(matchKey)}` },
             { title: "Product Found" },
             { title: "Product Title" },
             { title: "Status" },
@@ -8,17 +8,57 @@ import {
   InlineStack,
   Box,
   TextField,
+  Select,
+  RangeSlider,
 } from "@shopify/polaris";
-import type { UploadSettings } from "~/types";
+import type { ImageOptimizationSettings, MatchKey, UploadSettings } from "~/types";
+import { MATCH_KEY_OPTIONS } from "~/utils/matchKeys";
+
+const POSITION_MODE_OPTIONS = [
+  { label: "Insert, shifting existing images down", value: "insert" },
+  { label: "Replace only the image in that position", value: "replace-slot" },
+];
+
+const ASPECT_RATIO_OPTIONS = [
+  { label: "Keep original", value: "original" },
+  { label: "Square (1:1)", value: "1:1" },
+  { label: "Portrait (4:5)", value: "4:5" },
+  { label: "Portrait (3:4)", value: "3:4" },
+];
+
+const ASPECT_MODE_OPTIONS = [
+  { label: "Pad with background colour", value: "pad" },
+  { label: "Crop to fill", value: "crop" },
+];
+
+const HEX_COLOUR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const REPLACE_FAILURE_OPTIONS = [
+  { label: "Keep existing images and the new ones that worked", value: "keep-old" },
+  { label: "Roll back new images, leave the product unchanged", value: "rollback-new" },
+];
 
 interface SettingsCardProps {
   settings: UploadSettings;
   onChange: (settings: UploadSettings) => void;
   disabled?: boolean;
   maxPosition?: number; // Highest sort position in uploaded files
+  positionVocabulary?: Record<string, number>; // Words mapped to positions, used as default alt text
 }
 
-export function SettingsCard({ settings, onChange, disabled = false, maxPosition = 0 }: SettingsCardProps) {
+export function SettingsCard({
+  settings,
+  onChange,
+  disabled = false,
+  maxPosition = 0,
+  positionVocabulary = {},
+}: SettingsCardProps) {
+  // Vocabulary words are the fallback alt text for their position
+  const vocabularyLabels: Record<number, string> = {};
+  for (const [word, position] of Object.entries(positionVocabulary)) {
+    vocabularyLabels[position] ??= word.charAt(0).toUpperCase() + word.slice(1);
+  }
+
   const handleDryRunChange = (checked: boolean) => {
     onChange({ ...settings, dryRun: checked });
   };
@@ -27,10 +67,51 @@ export function SettingsCard({ settings, onChange, disabled = false, maxPosition
     onChange({ ...settings, uploadStrategy: strategy });
   };
 
+  const handleReplaceFailurePolicyChange = (value: string) => {
+    onChange({ ...settings, replaceFailurePolicy: value as UploadSettings["replaceFailurePolicy"] });
+  };
+
+  const handlePositionModeChange = (value: string) => {
+    onChange({ ...settings, positionMode: value as UploadSettings["positionMode"] });
+  };
+
+  const handleOptimizationChange = (changes: Partial<ImageOptimizationSettings>) => {
+    onChange({ ...settings, imageOptimization: { ...settings.imageOptimization, ...changes } });
+  };
+
+  const handleMaxDimensionChange = (value: string) => {
+    const maxDimension = parseInt(value, 10);
+    handleOptimizationChange({ maxDimension: maxDimension > 0 ? maxDimension : null });
+  };
+
   const handleSeoChange = (checked: boolean) => {
     onChange({ ...settings, seoOptimization: checked });
   };
 
+  const handleMatchKeyChange = (value: string) => {
+    onChange({ ...settings, matchKey: value as MatchKey });
+  };
+
+  const handleMetafieldChange = (field: "namespace" | "key", value: string) => {
+    onChange({ ...settings, matchMetafield: { ...settings.matchMetafield, [field]: value.trim() } });
+  };
+
+  const handleVariantImageChange = (checked: boolean) => {
+    onChange({ ...settings, assignVariantImage: checked });
+  };
+
+  const handleVariantPositionChange = (value: string) => {
+    onChange({ ...settings, variantImagePosition: value ? parseInt(value, 10) : null });
+  };
+
+  const variantPositionOptions = [
+    { label: "First uploaded image", value: "" },
+    ...Array.from({ length: Math.max(maxPosition, 1) }, (_, i) => i + 1).map((position) => ({
+      label: `Position ${String(position).padStart(2, "0")}`,
+      value: String(position),
+    })),
+  ];
+
   const handleAltTextChange = (position: number, value: string) => {
     const newAltTextByPosition = { ...(settings.altTextByPosition || {}) };
     if (value.trim()) {
@@ -58,6 +139,39 @@ export function SettingsCard({ settings, onChange, disabled = false, maxPosition
               disabled={disabled}
             />
 
+            <Box paddingBlockStart="200">
+              <BlockStack gap="200">
+                <Select
+                  label="Match Files By"
+                  helpText="The part of the filename detected as SKU is looked up using this identifier"
+                  options={MATCH_KEY_OPTIONS}
+                  value={settings.matchKey}
+                  onChange={handleMatchKeyChange}
+                  disabled={disabled}
+                />
+                {settings.matchKey === "metafield" && (
+                  <InlineStack gap="200" wrap={false}>
+                    <TextField
+                      label="Namespace"
+                      value={settings.matchMetafield.namespace}
+                      onChange={(value) => handleMetafieldChange("namespace", value)}
+                      placeholder="custom"
+                      disabled={disabled}
+                      autoComplete="off"
+                    />
+                    <TextField
+                      label="Key"
+                      value={settings.matchMetafield.key}
+                      onChange={(value) => handleMetafieldChange("key", value)}
+                      placeholder="supplier_code"
+                      disabled={disabled}
+                      autoComplete="off"
+                    />
+                  </InlineStack>
+                )}
+              </BlockStack>
+            </Box>
+
             <Box paddingBlockStart="200">
               <BlockStack gap="200">
                 <Text as="span" variant="bodyMd" fontWeight="semibold">
@@ -66,13 +180,24 @@ export function SettingsCard({ settings, onChange, disabled = false, maxPosition
                 <BlockStack gap="100">
                   <RadioButton
                     label="Replace"
-                    helpText="Delete all existing images, then upload new ones"
+                    helpText="Upload new images, then delete the existing ones once the new ones are ready"
                     checked={settings.uploadStrategy === "replace"}
                     id="strategy-replace"
                     name="uploadStrategy"
                     onChange={() => handleStrategyChange("replace")}
                     disabled={disabled}
                   />
+                  {settings.uploadStrategy === "replace" && (
+                    <Box paddingInlineStart="600">
+                      <Select
+                        label="If some images fail"
+                        options={REPLACE_FAILURE_OPTIONS}
+                        value={settings.replaceFailurePolicy}
+                        onChange={handleReplaceFailurePolicyChange}
+                        disabled={disabled}
+                      />
+                    </Box>
+                  )}
                   <RadioButton
                     label="Prepend"
                     helpText="Add new images at the start (first image becomes main product image)"
@@ -91,10 +216,147 @@ export function SettingsCard({ settings, onChange, disabled = false, maxPosition
                     onChange={() => handleStrategyChange("append")}
                     disabled={disabled}
                   />
+                  <RadioButton
+                    label="Position"
+                    helpText="Place each image at the gallery position given by its sort number (03 becomes the third image)"
+                    checked={settings.uploadStrategy === "position"}
+                    id="strategy-position"
+                    name="uploadStrategy"
+                    onChange={() => handleStrategyChange("position")}
+                    disabled={disabled}
+                  />
+                  {settings.uploadStrategy === "position" && (
+                    <Box paddingInlineStart="600">
+                      <Select
+                        label="Existing image in that position"
+                        options={POSITION_MODE_OPTIONS}
+                        value={settings.positionMode}
+                        onChange={handlePositionModeChange}
+                        disabled={disabled}
+                      />
+                    </Box>
+                  )}
                 </BlockStack>
               </BlockStack>
             </Box>
 
+            <Box paddingBlockStart="200">
+              <BlockStack gap="300">
+                <Checkbox
+                  label="Set Variant Image"
+                  helpText="Link an uploaded image to the variant whose SKU or barcode matched the filename"
+                  checked={settings.assignVariantImage}
+                  onChange={handleVariantImageChange}
+                  disabled={disabled}
+                />
+                {settings.assignVariantImage && (
+                  <Box paddingInlineStart="600">
+                    <Select
+                      label="Image to link"
+                      options={variantPositionOptions}
+                      value={settings.variantImagePosition !== null ? String(settings.variantImagePosition) : ""}
+                      onChange={handleVariantPositionChange}
+                      disabled={disabled}
+                    />
+                  </Box>
+                )}
+              </BlockStack>
+            </Box>
+
+            <Box paddingBlockStart="200">
+              <BlockStack gap="300">
+                <Checkbox
+                  label="Optimize Images"
+                  helpText="Resize, reshape and recompress images on the server before uploading. Accepts files up to 100MB."
+                  checked={settings.imageOptimization.enabled}
+                  onChange={(checked) => handleOptimizationChange({ enabled: checked })}
+                  disabled={disabled}
+                />
+                {settings.imageOptimization.enabled && (
+                  <Box paddingInlineStart="600">
+                    <BlockStack gap="300">
+                      <TextField
+                        label="Longest edge (px)"
+                        type="number"
+                        min={1}
+                        value={settings.imageOptimization.maxDimension ? String(settings.imageOptimization.maxDimension) : ""}
+                        onChange={handleMaxDimensionChange}
+                        placeholder="Keep original size"
+                        disabled={disabled}
+                        autoComplete="off"
+                      />
+                      <RangeSlider
+                        label="Quality"
+                        helpText="Applies to JPEG and WebP images; PNGs are kept lossless"
+                        min={40}
+                        max={100}
+                        value={settings.imageOptimization.quality}
+                        onChange={(value) =>
+                          handleOptimizationChange({ quality: typeof value === "number" ? value : value[0] })
+                        }
+                        output
+                        disabled={disabled}
+                      />
+                      <Checkbox
+                        label="Convert to WebP"
+                        checked={settings.imageOptimization.convertToWebp}
+                        onChange={(checked) => handleOptimizationChange({ convertToWebp: checked })}
+                        disabled={disabled}
+                      />
+                      <Checkbox
+                        label="Trim uniform borders"
+                        helpText="Removes solid-colour edges around the product before it is fitted"
+                        checked={settings.imageOptimization.autoTrim}
+                        onChange={(checked) => handleOptimizationChange({ autoTrim: checked })}
+                        disabled={disabled}
+                      />
+                      <Select
+                        label="Aspect ratio"
+                        options={ASPECT_RATIO_OPTIONS}
+                        value={settings.imageOptimization.aspectRatio}
+                        onChange={(value) =>
+                          handleOptimizationChange({ aspectRatio: value as ImageOptimizationSettings["aspectRatio"] })
+                        }
+                        disabled={disabled}
+                      />
+                      {settings.imageOptimization.aspectRatio !== "original" && (
+                        <FormLayout.Group>
+                          <Select
+                            label="Fit"
+                            options={ASPECT_MODE_OPTIONS}
+                            value={settings.imageOptimization.aspectMode}
+                            onChange={(value) =>
+                              handleOptimizationChange({ aspectMode: value as ImageOptimizationSettings["aspectMode"] })
+                            }
+                            disabled={disabled}
+                          />
+                          {settings.imageOptimization.aspectMode === "pad" && (
+                            <TextField
+                              label="Background colour"
+                              value={settings.imageOptimization.background}
+                              onChange={(value) => handleOptimizationChange({ background: value })}
+                              error={
+                                HEX_COLOUR.test(settings.imageOptimization.background)
+                                  ? undefined
+                                  : "Enter a hex colour, e.g. #FFFFFF"
+                              }
+                              placeholder="#FFFFFF"
+                              disabled={disabled}
+                              autoComplete="off"
+                            />
+                          )}
+                        </FormLayout.Group>
+                      )}
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        Files are sent through the app instead of uploading directly from your browser.
+                        Dry runs show a preview of each processed image.
+                      </Text>
+                    </BlockStack>
+                  </Box>
+                )}
+              </BlockStack>
+            </Box>
+
             <Box paddingBlockStart="200">
               <BlockStack gap="300">
                 <Checkbox
@@ -108,7 +370,7 @@ export function SettingsCard({ settings, onChange, disabled = false, maxPosition
                   <Box paddingInlineStart="600">
                     <BlockStack gap="200">
                       <Text as="span" variant="bodySm" tone="subdued">
-                        Custom alt text per position (leave empty for "View ##"):
+                        Custom alt text per position (leave empty for the position word or "View ##"):
                         {maxPosition > 0 && ` Detected up to position ${String(maxPosition).padStart(2, "0")}`}
                       </Text>
                       <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "8px" }}>
@@ -117,7 +379,7 @@ export function SettingsCard({ settings, onChange, disabled = false, maxPosition
                             key={`pos-${position}`}
                             label={`Position ${String(position).padStart(2, "0")}`}
                             labelHidden
-                            placeholder={`${String(position).padStart(2, "0")}: View ${String(position).padStart(2, "0")}`}
+                            placeholder={`${String(position).padStart(2, "0")}: ${vocabularyLabels[position] ?? `View ${String(position).padStart(2, "0")}`}`}
                             value={settings.altTextByPosition?.[position] ?? ""}
                             onChange={(value) => handleAltTextChange(position, value)}
                             disabled={disabled}
@@ -0,0 +1,135 @@
+import { useCallback, useMemo, useState } from "react";
+import { useFetcher } from "@remix-run/react";
+import {
+  Card,
+  BlockStack,
+  InlineStack,
+  Text,
+  Button,
+  Badge,
+  Banner,
+} from "@shopify/polaris";
+import type { MatchKey, MatchPreviewResponse, ParsedFile, UploadSettings } from "~/types";
+import { getMatchKeyLabel } from "~/utils/matchKeys";
+
+interface SkuReviewCardProps {
+  files: ParsedFile[];
+  match: Pick<UploadSettings, "matchKey" | "matchMetafield" | "useCatalogIndex">;
+  onAcceptSuggestion: (fromSku: string, toSku: string) => void;
+  disabled?: boolean;
+}
+
+export function SkuReviewCard({
+  files,
+  match,
+  onAcceptSuggestion,
+  disabled = false,
+}: SkuReviewCardProps) {
+  const fetcher = useFetcher<MatchPreviewResponse>();
+  const isChecking = fetcher.state !== "idle";
+  const [accepted, setAccepted] = useState<Record<string, string>>({});
+
+  const uniqueSkus = useMemo(
+    () => Array.from(new Set(files.filter((f) => f.isValid).map((f) => f.sku))),
+    [files]
+  );
+
+  // Dropping new files or changing the match key invalidates the previous check
+  const [checked, setChecked] = useState<{ matchKey: MatchKey; skus: Set<string> } | null>(null);
+  const isCurrent =
+    checked?.matchKey === match.matchKey &&
+    uniqueSkus.every((sku) => checked.skus.has(sku) || Object.values(accepted).includes(sku));
+  const preview = isCurrent ? fetcher.data : undefined;
+
+  const handleCheck = useCallback(() => {
+    setAccepted({});
+    setChecked({ matchKey: match.matchKey, skus: new Set(uniqueSkus) });
+    fetcher.submit(
+      { skus: JSON.stringify(uniqueSkus), match: JSON.stringify(match) },
+      { method: "POST", action: "/app/match-preview" }
+    );
+  }, [fetcher, uniqueSkus, match]);
+
+  const handleAccept = useCallback(
+    (fromSku: string, toSku: string) => {
+      setAccepted((current) => ({ ...current, [fromSku]: toSku }));
+      onAcceptSuggestion(fromSku, toSku);
+    },
+    [onAcceptSuggestion]
+  );
+
+  if (uniqueSkus.length === 0) return null;
+
+  const label = getMatchKeyLabel(match.matchKey);
+  const unresolved = preview?.missing.filter((sku) => !accepted[sku]) ?? [];
+
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <InlineStack align="space-between" blockAlign="center">
+          <Text as="h2" variant="headingMd">
+            Review {label} Matches
+          </Text>
+          <Button onClick={handleCheck} loading={isChecking} disabled={disabled}>
+            {preview ? "Check again" : "Check matches"}
+          </Button>
+        </InlineStack>
+
+        {!preview && (
+          <Text as="p" variant="bodySm" tone="subdued">
+            Look up all {uniqueSkus.length} {label}s before uploading to catch typos and padding differences
+          </Text>
+        )}
+
+        {preview && (
+          <Text as="p" variant="bodySm">
+            {Object.keys(preview.matches).length} of {uniqueSkus.length} {label}s matched a product
+            {Object.keys(accepted).length > 0 && `, ${Object.keys(accepted).length} corrected`}
+          </Text>
+        )}
+
+        {preview && Object.keys(accepted).length > 0 && (
+          <BlockStack gap="100">
+            {Object.entries(accepted).map(([fromSku, toSku]) => (
+              <Text as="p" variant="bodySm" key={fromSku}>
+                <strong>{fromSku}</strong> → {toSku} <Badge tone="success">Accepted</Badge>
+              </Text>
+            ))}
+          </BlockStack>
+        )}
+
+        {unresolved.length > 0 && (
+          <Banner tone="warning" title={`${unresolved.length} ${label}${unresolved.length !== 1 ? "s" : ""} not found`}>
+            <BlockStack gap="200">
+              {unresolved.map((sku) => {
+                const suggestions = preview?.suggestions[sku] ?? [];
+                return (
+                  <BlockStack gap="100" key={sku}>
+                    <Text as="p" variant="bodySm">
+                      <strong>{sku}</strong>
+                      {suggestions.length === 0 && " - no similar catalog values found"}
+                    </Text>
+                    {suggestions.length > 0 && (
+                      <InlineStack gap="200">
+                        {suggestions.map((suggestion) => (
+                          <Button
+                            key={suggestion.sku}
+                            size="slim"
+                            onClick={() => handleAccept(sku, suggestion.sku)}
+                            disabled={disabled}
+                          >
+                            {`Use ${suggestion.sku}`}
+                          </Button>
+                        ))}
+                      </InlineStack>
+                    )}
+                  </BlockStack>
+                );
+              })}
+            </BlockStack>
+          </Banner>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
-import { useCallback, useState, useEffect } from "react";
+import { useCallback, useState, useEffect, useMemo, useRef } from "react";
+import { useFetcher } from "@remix-run/react";
 import {
   DropZone,
   Card,
@@ -13,13 +14,27 @@ import {
 } from "@shopify/polaris";
 import { DeleteIcon } from "@shopify/polaris-icons";
 import JSZip from "jszip";
-import type { ParsedFile } from "~/types";
-import { parseAndValidateFile } from "~/utils/fileParser";
+import type {
+  FilenamePattern,
+  MatchPreviewResponse,
+  ParsedFile,
+  UploadSettings,
+} from "~/types";
+import { parseFileEntries } from "~/utils/fileParser";
+import {
+  applyManifest,
+  isManifestFile,
+  parseManifestFile,
+  type Manifest,
+  type ManifestIssue,
+} from "~/utils/manifestParser";
 import { analyzeImagePattern, formatMissingNumbers, type PatternAnalysis } from "~/utils/patternAnalyzer";
 
 interface UploadDropZoneProps {
   files: ParsedFile[];
   onFilesChange: (files: ParsedFile[]) => void;
+  filenamePattern: FilenamePattern;
+  match: Pick<UploadSettings, "matchKey" | "matchMetafield" | "useCatalogIndex">;
   disabled?: boolean;
 }
 
@@ -29,14 +44,20 @@ const VALID_EXTENSIONS = [".jpg", ".jpeg", ".png", ".gif", ".webp"];
 export function UploadDropZone({
   files,
   onFilesChange,
+  filenamePattern,
+  match,
   disabled = false,
 }: UploadDropZoneProps) {
+  const skuCheckFetcher = useFetcher<MatchPreviewResponse>();
+  const handledSkuCheck = useRef<MatchPreviewResponse | null>(null);
+  const indexFetcher = useFetcher<MatchPreviewResponse>();
+  const { submit: submitIndexCheck } = indexFetcher;
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
   const [processingStatus, setProcessingStatus] = useState("");
-  const [extractedCount, setExtractedCount] = useState(0);
-  const [totalToExtract, setTotalToExtract] = useState(0);
   const [patternAnalysis, setPatternAnalysis] = useState<PatternAnalysis | null>(null);
+  const [manifest, setManifest] = useState<Manifest | null>(null);
+  const [manifestIssues, setManifestIssues] = useState<ManifestIssue[]>([]);
 
   // Analyze pattern when files change
   useEffect(() => {
@@ -48,11 +69,76 @@ export function UploadDropZone({
     }
   }, [files]);
 
-  const extractImagesFromZip = async (zipFile: File): Promise<File[]> => {
+  const skuList = useMemo(
+    () => Array.from(new Set(files.filter((f) => f.isValid).map((f) => f.sku))).sort().join("\n"),
+    [files]
+  );
+
+  // Show catalog matches as soon as files are dropped, when the local index can answer
+  useEffect(() => {
+    if (!skuList || (match.matchKey !== "sku" && match.matchKey !== "barcode")) return;
+    submitIndexCheck(
+      { skus: JSON.stringify(skuList.split("\n")), match: JSON.stringify(match), source: "index" },
+      { method: "POST", action: "/app/match-preview" }
+    );
+  }, [skuList, match, submitIndexCheck]);
+
+  const indexPreview = skuList && indexFetcher.data?.fromIndex ? indexFetcher.data : undefined;
+
+  // Flag manifest rows whose SKU is not in the catalog
+  useEffect(() => {
+    const data = skuCheckFetcher.data;
+    if (skuCheckFetcher.state !== "idle" || !data || handledSkuCheck.current === data) return;
+    handledSkuCheck.current = data;
+    if (data.missing.length === 0) return;
+
+    const missing = new Set(data.missing);
+    const unknownIssues: ManifestIssue[] = [];
+    const updatedFiles = files.map((file) => {
+      if (file.manifestRow === undefined || !missing.has(file.sku)) return file;
+      unknownIssues.push({
+        row: file.manifestRow,
+        filename: file.originalFilename,
+        message: `Unknown SKU "${file.sku}"`,
+      });
+      return { ...file, isValid: false, error: `Unknown SKU "${file.sku}" (manifest row ${file.manifestRow})` };
+    });
+
+    setManifestIssues((current) => [...current, ...unknownIssues]);
+    onFilesChange(updatedFiles);
+  }, [skuCheckFetcher.state, skuCheckFetcher.data, files, onFilesChange]);
+
+  const checkManifestSkus = useCallback(
+    (manifestFiles: ParsedFile[]) => {
+      const skus = Array.from(
+        new Set(manifestFiles.filter((f) => f.manifestRow !== undefined && f.isValid).map((f) => f.sku))
+      );
+      if (skus.length === 0) return;
+
+      skuCheckFetcher.submit(
+        { skus: JSON.stringify(skus), match: JSON.stringify(match) },
+        { method: "POST", action: "/app/match-preview" }
+      );
+    },
+    [skuCheckFetcher, match]
+  );
+
+  const extractImagesFromZip = async (
+    zipFile: File
+  ): Promise<{ images: Array<{ file: File; path: string }>; manifests: File[] }> => {
     const zip = await JSZip.loadAsync(zipFile);
-    const imageFiles: File[] = [];
+    const imageFiles: Array<{ file: File; path: string }> = [];
+    const manifestFiles: File[] = [];
     const entries = Object.entries(zip.files);
 
+    // Manifests travel inside the archive next to the images
+    for (const [path, zipEntry] of entries) {
+      const fileName = path.split("/").pop() || "";
+      if (zipEntry.dir || fileName.startsWith(".") || !isManifestFile(fileName)) continue;
+      const blob = await zipEntry.async("blob");
+      manifestFiles.push(new File([blob], fileName));
+    }
+
     // Count valid image files first
     const validEntries = entries.filter(([path, zipEntry]) => {
       if (zipEntry.dir) return false;
@@ -62,9 +148,6 @@ export function UploadDropZone({
       return VALID_EXTENSIONS.includes(extension);
     });
 
-    setTotalToExtract(validEntries.length);
-    setExtractedCount(0);
-
     let processed = 0;
     for (const [path, zipEntry] of validEntries) {
       const fileName = path.split("/").pop() || "";
@@ -77,15 +160,14 @@ export function UploadDropZone({
         : "image/jpeg";
 
       const file = new File([blob], fileName, { type: mimeType });
-      imageFiles.push(file);
+      imageFiles.push({ file, path });
 
       processed++;
-      setExtractedCount(processed);
       setProcessingProgress((processed / validEntries.length) * 100);
       setProcessingStatus(`Extracting ${processed} of ${validEntries.length} images...`);
     }
 
-    return imageFiles;
+    return { images: imageFiles, manifests: manifestFiles };
   };
 
   const handleDrop = useCallback(
@@ -97,46 +179,70 @@ export function UploadDropZone({
       setProcessingStatus("Reading files...");
 
       try {
-        const allImageFiles: File[] = [];
+        const allImageFiles: Array<{ file: File; path: string }> = [];
+        const manifestFiles: File[] = [];
 
-        // Process ZIP files and regular images
+        // Process ZIP files, manifests and regular images
         for (const file of acceptedFiles) {
           if (file.name.toLowerCase().endsWith(".zip")) {
             setProcessingStatus(`Opening ${file.name}...`);
             setProcessingProgress(0);
-            const extractedImages = await extractImagesFromZip(file);
-            allImageFiles.push(...extractedImages);
+            const extracted = await extractImagesFromZip(file);
+            allImageFiles.push(...extracted.images);
+            manifestFiles.push(...extracted.manifests);
+          } else if (isManifestFile(file.name)) {
+            manifestFiles.push(file);
           } else if (VALID_IMAGE_TYPES.includes(file.type)) {
-            allImageFiles.push(file);
+            allImageFiles.push({ file, path: file.name });
           }
         }
 
+        // A newly dropped manifest replaces the previous one; multiple are merged
+        let activeManifest = manifest;
+        if (manifestFiles.length > 0) {
+          setProcessingStatus("Reading manifest...");
+          const parsedManifests = await Promise.all(manifestFiles.map(parseManifestFile));
+          activeManifest = {
+            sourceName: parsedManifests.map((m) => m.sourceName).join(", "),
+            rows: parsedManifests.flatMap((m) => m.rows),
+            issues: parsedManifests.flatMap((m) => m.issues),
+          };
+          setManifest(activeManifest);
+        }
+
         // Parse filenames
+        let newParsedFiles: ParsedFile[] = [];
         if (allImageFiles.length > 0) {
           setProcessingStatus(`Parsing ${allImageFiles.length} filenames...`);
           setProcessingProgress(0);
+          newParsedFiles = parseFileEntries(allImageFiles, filenamePattern);
+          setProcessingProgress(100);
+        }
 
-          const newParsedFiles: ParsedFile[] = [];
-          for (let i = 0; i < allImageFiles.length; i++) {
-            const parsed = parseAndValidateFile(allImageFiles[i]);
-            newParsedFiles.push(parsed);
-            setProcessingProgress(((i + 1) / allImageFiles.length) * 100);
-            setProcessingStatus(`Parsing filename ${i + 1} of ${allImageFiles.length}...`);
-          }
+        let combinedFiles = [...files, ...newParsedFiles];
+        if (activeManifest) {
+          const applied = applyManifest(combinedFiles, activeManifest);
+          combinedFiles = applied.files;
+          setManifestIssues(applied.issues);
+          checkManifestSkus(combinedFiles);
+        }
 
-          onFilesChange([...files, ...newParsedFiles]);
+        if (newParsedFiles.length > 0 || manifestFiles.length > 0) {
+          onFilesChange(combinedFiles);
         }
       } catch (error) {
         console.error("Error processing files:", error);
+        setManifestIssues((current) => [
+          ...current,
+          { row: 0, filename: "", message: error instanceof Error ? error.message : "Could not read files" },
+        ]);
       } finally {
         setIsProcessing(false);
         setProcessingProgress(0);
         setProcessingStatus("");
-        setExtractedCount(0);
-        setTotalToExtract(0);
       }
     },
-    [files, onFilesChange]
+    [files, onFilesChange, filenamePattern, manifest, checkManifestSkus]
   );
 
   const handleRemoveFile = useCallback(
@@ -149,6 +255,8 @@ export function UploadDropZone({
   );
 
   const handleClearAll = useCallback(() => {
+    setManifest(null);
+    setManifestIssues([]);
     onFilesChange([]);
   }, [onFilesChange]);
 
@@ -171,7 +279,7 @@ export function UploadDropZone({
 
         <DropZone
           onDrop={handleDrop}
-          accept="image/*,.zip"
+          accept="image/*,.zip,.csv,.xlsx,.xls"
           disabled={disabled || isProcessing}
           allowMultiple
         >
@@ -190,7 +298,7 @@ export function UploadDropZone({
           ) : files.length === 0 ? (
             <DropZone.FileUpload
               actionTitle="Add images or ZIP file"
-              actionHint="Drag and drop images or a ZIP archive"
+              actionHint="Drag and drop images, a ZIP archive, or a CSV/XLSX manifest"
             />
           ) : (
             <Box padding="400">
@@ -225,6 +333,29 @@ export function UploadDropZone({
           </Banner>
         )}
 
+        {manifestIssues.length > 0 && (
+          <Banner
+            tone="critical"
+            title={`${manifestIssues.length} manifest issue${manifestIssues.length !== 1 ? "s" : ""}${manifest ? ` in ${manifest.sourceName}` : ""}`}
+          >
+            <BlockStack gap="100">
+              {manifestIssues.slice(0, 5).map((issue, index) => (
+                <Text as="p" variant="bodySm" key={index}>
+                  {issue.row > 0 && <strong>Row {issue.row}</strong>}
+                  {issue.filename && ` (${issue.filename})`}
+                  {issue.row > 0 || issue.filename ? ": " : ""}
+                  {issue.message}
+                </Text>
+              ))}
+              {manifestIssues.length > 5 && (
+                <Text as="p" variant="bodySm">
+                  ...and {manifestIssues.length - 5} more
+                </Text>
+              )}
+            </BlockStack>
+          </Banner>
+        )}
+
         {patternAnalysis && patternAnalysis.warnings.length > 0 && patternAnalysis.isConsistentPattern && (
           <Banner tone="info" title="Potentially missing images detected">
             <BlockStack gap="200">
@@ -286,12 +417,16 @@ export function UploadDropZone({
                         {file.isValid ? (
                           <Text as="span" variant="bodySm" tone="subdued">
                             SKU: {file.sku} | Sort: {file.sortOrder}
+                            {file.manifestRow !== undefined && ` | Manifest row ${file.manifestRow}`}
                           </Text>
                         ) : (
                           <Text as="span" variant="bodySm" tone="critical">
                             {file.error}
                           </Text>
                         )}
+                        {file.isValid && indexPreview && (
+                          <IndexMatchLine match={indexPreview.matches[file.sku]} />
+                        )}
                       </BlockStack>
                     </InlineStack>
                     <Button
@@ -313,10 +448,19 @@ export function UploadDropZone({
             <strong>Supported:</strong> Images (JPEG, PNG, GIF, WebP) or ZIP archives containing images
           </Text>
           <Text as="p" variant="bodySm" tone="subdued">
-            <strong>Filename format:</strong> SKU-SortNumber.extension (e.g., SUMMER-DRESS-RED-01.jpg)
+            <strong>Manifest:</strong> CSV/XLSX with columns filename, sku, position and optional alt text overrides filename parsing
           </Text>
           <Text as="p" variant="bodySm" tone="subdued">
-            Maximum file size: 20MB per image
+            <strong>Filename format:</strong>{" "}
+            {filenamePattern.mode === "default"
+              ? "SKU-SortNumber.extension (e.g., SUMMER-DRESS-RED-01.jpg)"
+              : filenamePattern.mode === "template"
+                ? `${filenamePattern.template}.extension`
+                : `custom regex ${filenamePattern.regex}`}
+            {filenamePattern.folderAsSku && " — files inside ZIP folders use the folder name as SKU"}
+          </Text>
+          <Text as="p" variant="bodySm" tone="subdued">
+            Maximum file size: 20MB per image, or 100MB with image optimization enabled
           </Text>
         </Box>
       </BlockStack>
@@ -324,6 +468,20 @@ export function UploadDropZone({
   );
 }
 
+// Product a file's SKU resolved to in the local catalog index
+function IndexMatchLine({ match }: { match?: MatchPreviewResponse["matches"][string] }) {
+  return match ? (
+    <Text as="span" variant="bodySm" tone="success">
+      → {match.productTitle}
+      {match.variantTitle && ` (${match.variantTitle})`}
+    </Text>
+  ) : (
+    <Text as="span" variant="bodySm" tone="caution">
+      Not in catalog index
+    </Text>
+  );
+}
+
 // Simple thumbnail using Polaris icon - avoids blob URL issues
 function ImageThumbnail({ file }: { file: ParsedFile }) {
   return (
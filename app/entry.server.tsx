@@ -5,9 +5,13 @@ import { RemixServer } from "@remix-run/react";
 import { isbot } from "isbot";
 import { renderToPipeableStream } from "react-dom/server";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startUploadWorker } from "./utils/uploadWorker.server";
 
 const ABORT_DELAY = 5_000;
 
+// Resume upload jobs interrupted by a restart as soon as the server boots
+startUploadWorker();
+
 export default function handleRequest(
   request: Request,
   responseStatusCode: number,
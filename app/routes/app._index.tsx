@@ -1,11 +1,16 @@
-import { useState, useCallback, useEffect, useRef } from "react";
-import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { randomUUID } from "node:crypto";
 import {
   json,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
   unstable_parseMultipartFormData,
+  unstable_composeUploadHandlers,
+  unstable_createFileUploadHandler,
   unstable_createMemoryUploadHandler,
+  NodeOnDiskFile,
 } from "@remix-run/node";
-import { useFetcher } from "@remix-run/react";
+import { useFetcher, useLoaderData } from "@remix-run/react";
 import {
   Page,
   Layout,
@@ -13,8 +18,6 @@ import {
   Card,
   Text,
   Banner,
-  Spinner,
-  ProgressBar,
   Button,
   InlineStack,
 } from "@shopify/polaris";
@@ -22,31 +25,95 @@ import { authenticate } from "../shopify.server";
 import { SettingsCard } from "~/components/SettingsCard";
 import { UploadDropZone } from "~/components/UploadDropZone";
 import { ResultsTable } from "~/components/ResultsTable";
+import { FilenamePatternCard } from "~/components/FilenamePatternCard";
+import { SkuReviewCard } from "~/components/SkuReviewCard";
+import { JobProgressCard } from "~/components/JobProgressCard";
+import { CatalogIndexCard } from "~/components/CatalogIndexCard";
 import type {
   UploadSettings,
   ParsedFile,
-  ParsedFileData,
   ProcessingResult,
   ActionResponse,
+  FilenamePattern,
+  UploadJobStatus,
+  DryRunPreviewResponse,
 } from "~/types";
-import { groupFilesBySku, getUniqueSKUs } from "~/utils/fileParser";
-import { queryProductsBySKUs } from "~/utils/shopifyMedia.server";
-import { processUploadQueue, generateSummary } from "~/utils/imageQueue.server";
+import {
+  parseFileEntries,
+  validateFilenamePattern,
+  SHOPIFY_MAX_IMAGE_SIZE,
+} from "~/utils/fileParser";
+import { uploadFilesDirect, type DirectUploadResult } from "~/utils/directUpload";
+import { getJobDirectory, removeJobFiles } from "~/utils/fileStorage.server";
+import {
+  createUploadJob,
+  findJobByIdempotencyKey,
+  getActiveJobId,
+  getUploadJobStatus,
+  type NewJobItem,
+} from "~/utils/uploadJobs.server";
+import { notifyUploadWorker } from "~/utils/uploadWorker.server";
+import {
+  getShopFilenamePattern,
+  saveShopFilenamePattern,
+} from "~/utils/shopSettings.server";
+
+// How often the page checks on a running upload job
+const JOB_POLL_INTERVAL = 1500;
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
-  return json({});
+  const { session } = await authenticate.admin(request);
+  const filenamePattern = await getShopFilenamePattern(session.shop);
+  // Reopening the app while a job is still running picks its progress back up
+  const activeJobId = await getActiveJobId(session.shop);
+  return json({ filenamePattern, activeJobId });
 };
 
+/**
+ * Answer a submission that repeats an earlier one with that job's current status
+ */
+async function existingJobResponse(jobId: string, shop: string) {
+  const status = await getUploadJobStatus(jobId, shop);
+  return json<ActionResponse>({
+    success: true,
+    jobId,
+    results: status?.results ?? [],
+    summary: status?.summary ?? { total: 0, successful: 0, failed: 0, skipped: 0 },
+  });
+}
+
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
+
+  // Non-multipart submissions are settings changes, not uploads
+  if (!request.headers.get("Content-Type")?.includes("multipart/form-data")) {
+    const formData = await request.formData();
+    if (formData.get("intent") === "savePattern") {
+      const pattern: FilenamePattern = JSON.parse(String(formData.get("filenamePattern")));
+      const patternError = validateFilenamePattern(pattern);
+      if (patternError) {
+        return json({ saved: false, error: patternError }, { status: 400 });
+      }
+      await saveShopFilenamePattern(session.shop, pattern);
+      return json({ saved: true });
+    }
+    return json({ saved: false, error: "Unknown intent" }, { status: 400 });
+  }
+
+  const jobId = randomUUID();
 
   try {
+    // Files stream straight to disk so the job survives restarts and closed tabs
     const formData = await unstable_parseMultipartFormData(
       request,
-      unstable_createMemoryUploadHandler({
-        maxPartSize: 20 * 1024 * 1024,
-      })
+      unstable_composeUploadHandlers(
+        unstable_createFileUploadHandler({
+          directory: getJobDirectory(jobId),
+          maxPartSize: 100 * 1024 * 1024,
+          avoidFileConflicts: true,
+        }),
+        unstable_createMemoryUploadHandler()
+      )
     );
 
     const settingsJson = formData.get("settings");
@@ -55,6 +122,17 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
     const settings: UploadSettings = JSON.parse(settingsJson);
 
+    // Double clicks and retried requests carry the same key as the first submission
+    const idempotencyKey = formData.get("idempotencyKey");
+    const submissionKey = typeof idempotencyKey === "string" && idempotencyKey ? idempotencyKey : undefined;
+    const earlierJobId = submissionKey
+      ? await findJobByIdempotencyKey(session.shop, submissionKey)
+      : null;
+    if (earlierJobId) {
+      await removeJobFiles(jobId);
+      return existingJobResponse(earlierJobId, session.shop);
+    }
+
     const filesDataJson = formData.get("filesData");
     if (!filesDataJson || typeof filesDataJson !== "string") {
       throw new Error("Files data not provided");
@@ -65,31 +143,30 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       sortOrder: number;
       fileType: string;
       fileSize: number;
+      positionLabel?: string;
+      altText?: string;
+      resourceUrl?: string;
+      contentHash?: string;
       isValid: boolean;
       error?: string;
     }> = JSON.parse(filesDataJson);
 
-    const fileBlobs = formData.getAll("files") as File[];
-
-    const parsedFiles: ParsedFileData[] = await Promise.all(
-      filesMetadata.map(async (meta, index) => {
-        const file = fileBlobs[index];
-        const fileData = file ? await file.arrayBuffer() : new ArrayBuffer(0);
-        return {
-          originalFilename: meta.originalFilename,
-          sku: meta.sku,
-          sortOrder: meta.sortOrder,
-          fileData,
-          fileType: meta.fileType,
-          fileSize: meta.fileSize,
-          isValid: meta.isValid,
-          error: meta.error,
-        };
-      })
-    );
+    // The browser normally uploads to Shopify itself and only sends resource URLs;
+    // files to optimize are sent with the form as file-<index> and kept on disk for
+    // the worker. Dry runs only send files to preview optimization.
+    const jobItems: NewJobItem[] = filesMetadata.map((meta, index) => {
+      const fileBlob: unknown = formData.get(`file-${index}`);
+      if (fileBlob instanceof NodeOnDiskFile) {
+        return { ...meta, filePath: fileBlob.getFilePath() };
+      }
+
+      const expected = meta.isValid && !meta.resourceUrl && settings.imageOptimization?.enabled;
+      return expected
+        ? { ...meta, filePath: null, isValid: false, error: "File was not received by the server" }
+        : { ...meta, filePath: null };
+    });
 
-    const validFiles = parsedFiles.filter((f) => f.isValid);
-    const invalidResults: ProcessingResult[] = parsedFiles
+    const invalidResults: ProcessingResult[] = jobItems
       .filter((f) => !f.isValid)
       .map((f) => ({
         filename: f.originalFilename,
@@ -99,7 +176,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         errorDetails: f.error || "Invalid file",
       }));
 
-    if (validFiles.length === 0) {
+    if (invalidResults.length === jobItems.length) {
+      await removeJobFiles(jobId);
       return json<ActionResponse>({
         success: false,
         results: invalidResults,
@@ -112,26 +190,22 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       });
     }
 
-    const groupedFiles = groupFilesBySku(validFiles);
-    const uniqueSKUs = getUniqueSKUs(validFiles);
-    const productMap = await queryProductsBySKUs(admin, uniqueSKUs);
-    const uploadResults = await processUploadQueue(
-      groupedFiles,
-      productMap,
-      settings,
-      admin
-    );
-
-    const allResults = [...invalidResults, ...uploadResults];
-    const summary = generateSummary(allResults);
+    const createdJobId = await createUploadJob(jobId, session.shop, settings, jobItems, submissionKey);
+    if (createdJobId !== jobId) {
+      await removeJobFiles(jobId);
+      return existingJobResponse(createdJobId, session.shop);
+    }
+    notifyUploadWorker();
 
     return json<ActionResponse>({
-      success: summary.failed === 0,
-      results: allResults,
-      summary,
+      success: true,
+      jobId,
+      results: [],
+      summary: { total: jobItems.length, successful: 0, failed: 0, skipped: 0 },
     });
   } catch (error) {
     console.error("Action error:", error);
+    await removeJobFiles(jobId);
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     return json<ActionResponse>({
       success: false,
@@ -153,21 +227,70 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function Index() {
+  const { filenamePattern, activeJobId } = useLoaderData<typeof loader>();
   const fetcher = useFetcher<ActionResponse>();
-  const isProcessing = fetcher.state === "submitting" || fetcher.state === "loading";
+  const jobFetcher = useFetcher<UploadJobStatus>();
+  const { load: loadJob } = jobFetcher;
+  const previewFetcher = useFetcher<DryRunPreviewResponse>();
+  const { load: loadPreviews } = previewFetcher;
+  const undoFetcher = useFetcher<ActionResponse>();
+  const patternFetcher = useFetcher<{ saved: boolean; error?: string }>();
+  const [jobId, setJobId] = useState<string | null>(activeJobId);
+  const [undoingJobId, setUndoingJobId] = useState<string | null>(null);
+  const [undoneJobId, setUndoneJobId] = useState<string | null>(null);
 
   const [files, setFiles] = useState<ParsedFile[]>([]);
   const [settings, setSettings] = useState<UploadSettings>({
     dryRun: true,
     uploadStrategy: "append",
+    replaceFailurePolicy: "keep-old",
+    positionMode: "insert",
     seoOptimization: false,
     altTextByPosition: {},
+    filenamePattern: filenamePattern as FilenamePattern,
+    assignVariantImage: false,
+    variantImagePosition: null,
+    matchKey: "sku",
+    matchMetafield: { namespace: "", key: "" },
+    useCatalogIndex: true,
+    imageOptimization: {
+      enabled: false,
+      maxDimension: 4096,
+      quality: 82,
+      convertToWebp: false,
+      aspectRatio: "original",
+      aspectMode: "pad",
+      background: "#FFFFFF",
+      autoTrim: false,
+    },
   });
   const [results, setResults] = useState<ActionResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState(0);
-  const [uploadStatus, setUploadStatus] = useState("");
-  const progressRef = useRef(0);
+  const [directUpload, setDirectUpload] = useState<{ done: number; total: number } | null>(null);
+  // Identifies one submission of the current files and settings, however often it is sent
+  const submissionKey = useRef<string | null>(null);
+  const submitting = useRef(false);
+  const isProcessing =
+    !!directUpload ||
+    fetcher.state === "submitting" ||
+    fetcher.state === "loading" ||
+    (!!jobId && !results);
+
+  const matchOptions = useMemo(
+    () => ({
+      matchKey: settings.matchKey,
+      matchMetafield: settings.matchMetafield,
+      useCatalogIndex: settings.useCatalogIndex,
+    }),
+    [settings.matchKey, settings.matchMetafield, settings.useCatalogIndex]
+  );
+
+  const canUndo =
+    !!results &&
+    !!jobId &&
+    jobId !== undoneJobId &&
+    jobFetcher.data?.jobId === jobId &&
+    jobFetcher.data.canUndo;
 
   const validFiles = files.filter((f) => f.isValid);
   const validFilesCount = validFiles.length;
@@ -176,93 +299,191 @@ export default function Index() {
     ? Math.max(...validFiles.map((f) => f.sortOrder))
     : 0;
 
-  // Handle fetcher response
+  // Re-parse already dropped files whenever the filename pattern changes
+  useEffect(() => {
+    if (validateFilenamePattern(settings.filenamePattern)) return;
+    setFiles((current) => {
+      const reparsed = parseFileEntries(
+        current.map((f) => ({ file: f.file, path: f.sourcePath ?? f.file.name })),
+        settings.filenamePattern
+      );
+      // Manifest rows take precedence over the filename pattern
+      return current.map((f, index) => (f.manifestRow !== undefined ? f : reparsed[index]));
+    });
+  }, [settings.filenamePattern]);
+
+  useEffect(() => {
+    if (patternFetcher.state === "idle" && patternFetcher.data?.error) {
+      setError(`Could not save filename pattern: ${patternFetcher.data.error}`);
+    }
+  }, [patternFetcher.state, patternFetcher.data]);
+
+  // Handle fetcher response: queued jobs are polled, immediate errors are shown directly
   useEffect(() => {
-    console.log("Fetcher state:", fetcher.state, "Data:", fetcher.data);
     if (fetcher.state === "idle" && fetcher.data) {
-      console.log("Setting results:", fetcher.data);
-      setResults(fetcher.data);
-      setProgress(100);
-      setUploadStatus("Complete!");
+      if (fetcher.data.jobId) {
+        setJobId(fetcher.data.jobId);
+      } else {
+        setResults(fetcher.data);
+      }
     }
   }, [fetcher.data, fetcher.state]);
 
-  // Realistic progress based on file count during processing
+  // Poll the background job until it finishes
   useEffect(() => {
-    if (isProcessing && validFilesCount > 0) {
-      progressRef.current = 0;
-      setProgress(0);
-
-      // Calculate time per file (estimate ~2 seconds per file for dry run, ~4 for upload)
-      const timePerFile = settings.dryRun ? 800 : 2000;
-      const totalTime = validFilesCount * timePerFile;
-      const updateInterval = 100;
-      const incrementPerUpdate = (100 / (totalTime / updateInterval)) * 0.9; // Cap at 90%
-
-      let currentFile = 0;
-      const interval = setInterval(() => {
-        progressRef.current += incrementPerUpdate;
-        if (progressRef.current >= 90) {
-          progressRef.current = 90;
-        }
-
-        // Update file counter for status
-        const estimatedFile = Math.min(
-          Math.floor((progressRef.current / 90) * validFilesCount) + 1,
-          validFilesCount
-        );
-        if (estimatedFile !== currentFile) {
-          currentFile = estimatedFile;
-          setUploadStatus(
-            settings.dryRun
-              ? `Validating file ${currentFile} of ${validFilesCount}...`
-              : `Uploading file ${currentFile} of ${validFilesCount}...`
-          );
-        }
-
-        setProgress(progressRef.current);
-      }, updateInterval);
-
-      return () => clearInterval(interval);
+    if (!jobId || results) return;
+
+    loadJob(`/app/jobs/${jobId}`);
+    const interval = setInterval(() => {
+      loadJob(`/app/jobs/${jobId}`);
+    }, JOB_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [jobId, results, loadJob]);
+
+  useEffect(() => {
+    const job = jobFetcher.data;
+    if (!job || job.jobId !== jobId) return;
+    if (job.status !== "completed" && job.status !== "failed") return;
+
+    if (job.error) {
+      setError(`Upload job failed: ${job.error}`);
+    }
+    setResults({
+      success: job.status === "completed" && job.summary.failed === 0,
+      jobId: job.jobId,
+      results: job.results,
+      summary: job.summary,
+    });
+    // Dry runs that optimized images have thumbnails, which are too large to poll with the status
+    if (job.summary.dryRun && job.results.some((result) => result.optimizedSize !== undefined)) {
+      loadPreviews(`/app/jobs/${job.jobId}/previews`);
+    }
+  }, [jobFetcher.data, jobId, loadPreviews]);
+
+  // Show the undo outcome in place of the job's results
+  useEffect(() => {
+    if (undoFetcher.state === "idle" && undoFetcher.data && undoingJobId) {
+      setUndoneJobId(undoingJobId);
+      setUndoingJobId(null);
+      setResults(undoFetcher.data);
     }
-  }, [isProcessing, validFilesCount, settings.dryRun]);
+  }, [undoFetcher.data, undoFetcher.state, undoingJobId]);
+
+  const handleUndo = useCallback(() => {
+    if (!jobId) return;
+    setUndoingJobId(jobId);
+    undoFetcher.submit({}, { method: "POST", action: `/app/jobs/${jobId}` });
+  }, [jobId, undoFetcher]);
+
+  // Changed files or settings make a new submission
+  useEffect(() => {
+    submissionKey.current = null;
+  }, [files, settings]);
 
-  const handleProcess = useCallback(() => {
-    if (!canProcess) return;
+  const handleProcess = useCallback(async () => {
+    // Both upload buttons can be clicked before the processing state renders
+    if (!canProcess || submitting.current) return;
+    submitting.current = true;
+    submissionKey.current ??= crypto.randomUUID();
 
     setError(null);
     setResults(null);
 
+    // Without optimization, files over Shopify's limit can't be uploaded
+    const tooLarge = (f: ParsedFile) =>
+      !settings.imageOptimization.enabled && f.file.size > SHOPIFY_MAX_IMAGE_SIZE;
+    const sendToServer = settings.imageOptimization.enabled;
+
+    // Upload straight from the browser to Shopify's staged targets, unless the server
+    // optimizes the files first; other dry runs only need metadata
+    const uploads = new Map<ParsedFile, DirectUploadResult>();
+    if (!settings.dryRun && !sendToServer) {
+      const toUpload = files.filter((f) => f.isValid && !tooLarge(f));
+      setDirectUpload({ done: 0, total: toUpload.length });
+      try {
+        const uploadResults = await uploadFilesDirect(
+          toUpload.map((f) => f.file),
+          (done, total) => setDirectUpload({ done, total })
+        );
+        toUpload.forEach((f, index) => uploads.set(f, uploadResults[index]));
+      } catch (uploadError) {
+        setError(
+          `Could not upload files: ${uploadError instanceof Error ? uploadError.message : "Unknown error"}`
+        );
+        submitting.current = false;
+        return;
+      } finally {
+        setDirectUpload(null);
+      }
+    }
+
     const formData = new FormData();
     formData.append("settings", JSON.stringify(settings));
-
-    const filesMetadata = files.map((f) => ({
-      originalFilename: f.originalFilename,
-      sku: f.sku,
-      sortOrder: f.sortOrder,
-      fileType: f.file.type,
-      fileSize: f.file.size,
-      isValid: f.isValid,
-      error: f.error,
-    }));
+    formData.append("idempotencyKey", submissionKey.current);
+
+    const filesMetadata = files.map((f) => {
+      const upload = uploads.get(f);
+      return {
+        originalFilename: f.originalFilename,
+        sku: f.sku,
+        sortOrder: f.sortOrder,
+        fileType: f.file.type,
+        fileSize: f.file.size,
+        positionLabel: f.positionLabel,
+        altText: f.altText,
+        resourceUrl: upload?.resourceUrl,
+        contentHash: upload?.contentHash,
+        isValid: f.isValid && !upload?.error && !tooLarge(f),
+        error:
+          upload?.error ??
+          (f.isValid && tooLarge(f)
+            ? `File exceeds Shopify's 20MB limit (${(f.file.size / 1024 / 1024).toFixed(2)}MB); enable image optimization to upload it`
+            : f.error),
+      };
+    });
     formData.append("filesData", JSON.stringify(filesMetadata));
 
-    for (const parsedFile of files) {
-      formData.append("files", parsedFile.file);
+    if (sendToServer) {
+      files.forEach((f, index) => {
+        if (f.isValid) formData.append(`file-${index}`, f.file);
+      });
     }
 
     fetcher.submit(formData, {
       method: "POST",
       encType: "multipart/form-data",
     });
+    submitting.current = false;
   }, [canProcess, files, settings, fetcher]);
 
+  const handleSavePattern = useCallback(() => {
+    patternFetcher.submit(
+      {
+        intent: "savePattern",
+        filenamePattern: JSON.stringify(settings.filenamePattern),
+      },
+      { method: "POST" }
+    );
+  }, [patternFetcher, settings.filenamePattern]);
+
+  const handlePatternChange = useCallback((pattern: FilenamePattern) => {
+    setSettings((current) => ({ ...current, filenamePattern: pattern }));
+  }, []);
+
+  const handleCatalogIndexChange = useCallback((enabled: boolean) => {
+    setSettings((current) => ({ ...current, useCatalogIndex: enabled }));
+  }, []);
+
+  const handleAcceptSuggestion = useCallback((fromSku: string, toSku: string) => {
+    setFiles((current) => current.map((f) => (f.sku === fromSku ? { ...f, sku: toSku } : f)));
+  }, []);
+
   const handleReset = useCallback(() => {
+    setJobId(null);
     setFiles([]);
     setResults(null);
     setError(null);
-    setProgress(0);
-    setUploadStatus("");
   }, []);
 
   return (
@@ -282,6 +503,16 @@ export default function Index() {
                 content: "Start New Upload",
                 onAction: handleReset,
               },
+              ...(canUndo
+                ? [
+                    {
+                      content: "Undo job",
+                      destructive: true,
+                      onAction: handleUndo,
+                      loading: undoFetcher.state !== "idle",
+                    },
+                  ]
+                : []),
             ]
           : undefined
       }
@@ -293,24 +524,23 @@ export default function Index() {
           </Banner>
         )}
 
+        {results && jobId && jobId === undoneJobId && (
+          <Banner tone={results.success ? "success" : "warning"}>
+            <p>
+              {results.success
+                ? "Job undone. Images it added were removed and the original media restored."
+                : "Job undone with errors. Check the results below for products that need attention."}
+            </p>
+          </Banner>
+        )}
+
         {isProcessing && (
-          <Card>
-            <BlockStack gap="400">
-              <InlineCenter>
-                <Spinner size="large" />
-              </InlineCenter>
-              <Text as="p" variant="headingMd" alignment="center">
-                {settings.dryRun ? "Validating files..." : "Uploading images..."}
-              </Text>
-              <Text as="p" variant="bodyMd" alignment="center" fontWeight="semibold">
-                {uploadStatus || `Processing ${validFilesCount} file${validFilesCount !== 1 ? "s" : ""}...`}
-              </Text>
-              <ProgressBar progress={progress} size="small" tone="primary" />
-              <Text as="p" variant="bodySm" tone="subdued" alignment="center">
-                {Math.round(progress)}% complete
-              </Text>
-            </BlockStack>
-          </Card>
+          <JobProgressCard
+            job={jobFetcher.data?.jobId === jobId ? jobFetcher.data : undefined}
+            directUpload={directUpload ?? undefined}
+            dryRun={settings.dryRun}
+            fileCount={validFilesCount}
+          />
         )}
 
         {!results && !isProcessing ? (
@@ -320,8 +550,18 @@ export default function Index() {
                 <UploadDropZone
                   files={files}
                   onFilesChange={setFiles}
+                  filenamePattern={settings.filenamePattern}
+                  match={matchOptions}
                   disabled={isProcessing}
                 />
+                {validFilesCount > 0 && (
+                  <SkuReviewCard
+                    files={files}
+                    match={matchOptions}
+                    onAcceptSuggestion={handleAcceptSuggestion}
+                    disabled={isProcessing}
+                  />
+                )}
                 {validFilesCount > 0 && (
                   <Card>
                     <InlineStack align="space-between" blockAlign="center">
@@ -350,18 +590,43 @@ export default function Index() {
             </Layout.Section>
 
             <Layout.Section variant="oneThird">
-              <SettingsCard
-                settings={settings}
-                onChange={setSettings}
-                disabled={isProcessing}
-                maxPosition={maxPosition}
-              />
+              <BlockStack gap="400">
+                <SettingsCard
+                  settings={settings}
+                  onChange={setSettings}
+                  disabled={isProcessing}
+                  maxPosition={maxPosition}
+                  positionVocabulary={settings.filenamePattern.positionVocabulary}
+                />
+                <CatalogIndexCard
+                  enabled={settings.useCatalogIndex}
+                  onEnabledChange={handleCatalogIndexChange}
+                  matchKey={settings.matchKey}
+                  disabled={isProcessing}
+                />
+                <FilenamePatternCard
+                  pattern={settings.filenamePattern}
+                  onChange={handlePatternChange}
+                  onSave={handleSavePattern}
+                  saving={patternFetcher.state !== "idle"}
+                  disabled={isProcessing}
+                />
+              </BlockStack>
             </Layout.Section>
           </Layout>
         ) : results ? (
           <Layout>
             <Layout.Section>
-              <ResultsTable results={results.results} summary={results.summary} />
+              <ResultsTable
+                results={results.results}
+                summary={results.summary}
+                matchKey={settings.matchKey}
+                previews={
+                  previewFetcher.data && previewFetcher.data.jobId === results.jobId
+                    ? previewFetcher.data.previews
+                    : undefined
+                }
+              />
             </Layout.Section>
           </Layout>
         ) : null}
@@ -379,7 +644,8 @@ export default function Index() {
                 2. Example: <strong>SUMMER-DRESS-RED-01.jpg</strong> → SKU: SUMMER-DRESS-RED, Sort: 01
               </Text>
               <Text as="p" variant="bodySm" tone="subdued">
-                3. The app uses the LAST hyphen to separate SKU from sort number (SKUs can contain hyphens)
+                3. The app uses the LAST hyphen to separate SKU from sort number (SKUs can contain hyphens).
+                Use a custom filename pattern such as <strong>{"{sku}_{position}"}</strong> for other naming schemes
               </Text>
               <Text as="p" variant="bodySm" tone="subdued">
                 4. Drop your files, configure settings, and click Upload to process
@@ -391,11 +657,3 @@ export default function Index() {
     </Page>
   );
 }
-
-function InlineCenter({ children }: { children: React.ReactNode }) {
-  return (
-    <div style={{ display: "flex", justifyContent: "center", padding: "20px 0" }}>
-      {children}
-    </div>
-  );
-}
@@ -0,0 +1,33 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import type { CatalogSyncStatus } from "~/types";
+import { createAdminClient } from "~/utils/adminClient.server";
+import { getCatalogSyncStatus, startCatalogSync } from "~/utils/catalogIndex.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  return json<CatalogSyncStatus>(await getCatalogSyncStatus(session.shop));
+};
+
+/**
+ * Start a bulk export of the shop's variants into the local catalog index
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin: shopifyAdmin, session } = await authenticate.admin(request);
+  const admin = createAdminClient(shopifyAdmin, session.shop);
+
+  try {
+    return json<CatalogSyncStatus>(await startCatalogSync(admin, session.shop));
+  } catch (error) {
+    console.error("Catalog sync error:", error);
+    return json<CatalogSyncStatus>(
+      {
+        status: "failed",
+        variantCount: 0,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,15 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import type { DryRunPreviewResponse } from "~/types";
+import { getDryRunPreviews } from "~/utils/dryRunPreviews.server";
+
+/**
+ * Thumbnails of a finished dry run, loaded once rather than with every status poll
+ */
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const jobId = params.jobId ?? "";
+
+  return json<DryRunPreviewResponse>({ jobId, previews: getDryRunPreviews(jobId, session.shop) });
+};
@@ -0,0 +1,51 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import type { ActionResponse, UploadJobStatus } from "~/types";
+import { createAdminClient } from "~/utils/adminClient.server";
+import { generateSummary } from "~/utils/imageQueue.server";
+import { undoUploadJob } from "~/utils/jobUndo.server";
+import { getUploadJobStatus } from "~/utils/uploadJobs.server";
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const status = await getUploadJobStatus(params.jobId ?? "", session.shop);
+  if (!status) {
+    throw new Response("Upload job not found", { status: 404 });
+  }
+
+  return json<UploadJobStatus>(status);
+};
+
+/**
+ * Undo a finished job, restoring each touched product's media from its snapshot
+ */
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { admin: shopifyAdmin, session } = await authenticate.admin(request);
+  const admin = createAdminClient(shopifyAdmin, session.shop);
+
+  try {
+    const results = await undoUploadJob(admin, params.jobId ?? "", session.shop);
+    const summary = generateSummary(results);
+    return json<ActionResponse>({ success: summary.failed === 0, results, summary });
+  } catch (error) {
+    console.error("Undo error:", error);
+    return json<ActionResponse>({
+      success: false,
+      results: [{
+        filename: "Error",
+        detectedSku: "",
+        productFound: false,
+        status: "error",
+        errorDetails: error instanceof Error ? error.message : "Unknown error",
+      }],
+      summary: {
+        total: 1,
+        successful: 0,
+        failed: 1,
+        skipped: 0,
+      },
+    });
+  }
+};
@@ -0,0 +1,79 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import type { MatchPreviewResponse, UploadSettings } from "~/types";
+import { createAdminClient } from "~/utils/adminClient.server";
+import { getCatalogResolver } from "~/utils/catalogIndex.server";
+import { queryProductsBySKUs, querySkuCandidates } from "~/utils/shopifyMedia.server";
+import { rankSkuSuggestions } from "~/utils/skuSuggestions";
+
+// Suggestion lookups cost one query per SKU, so cap them per request
+const MAX_SUGGESTION_LOOKUPS = 50;
+
+/**
+ * Resolve SKUs against the catalog before upload so unknown ones can be flagged early,
+ * with near-matching catalog values suggested for the ones that were not found
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin: shopifyAdmin, session } = await authenticate.admin(request);
+  const admin = createAdminClient(shopifyAdmin, session.shop);
+
+  const formData = await request.formData();
+  const skus: string[] = JSON.parse(String(formData.get("skus") || "[]"));
+  const match: Pick<UploadSettings, "matchKey" | "matchMetafield" | "useCatalogIndex"> = JSON.parse(
+    String(formData.get("match") || '{"matchKey":"sku"}')
+  );
+
+  // Instant previews answer from the local index only and never query Shopify
+  if (formData.get("source") === "index") {
+    const resolve = await getCatalogResolver(session.shop, { ...match, useCatalogIndex: true });
+    if (!resolve) {
+      return json<MatchPreviewResponse>({ matches: {}, missing: [], suggestions: {}, fromIndex: false });
+    }
+
+    const indexed = await resolve(skus);
+    const matches: MatchPreviewResponse["matches"] = {};
+    indexed.forEach((found, sku) => {
+      matches[sku] = { productTitle: found.productTitle, variantTitle: found.variantTitle };
+    });
+    return json<MatchPreviewResponse>({
+      matches,
+      missing: skus.filter((sku) => !indexed.has(sku)),
+      suggestions: {},
+      fromIndex: true,
+    });
+  }
+
+  const productMap = await queryProductsBySKUs(
+    admin,
+    skus,
+    match,
+    await getCatalogResolver(session.shop, match)
+  );
+
+  const matches: MatchPreviewResponse["matches"] = {};
+  const missing: string[] = [];
+  for (const sku of skus) {
+    const product = productMap.get(sku);
+    if (product) {
+      matches[sku] = { productTitle: product.title, variantTitle: product.variantTitle };
+    } else {
+      missing.push(sku);
+    }
+  }
+
+  const suggestions: MatchPreviewResponse["suggestions"] = {};
+  for (const sku of missing.slice(0, MAX_SUGGESTION_LOOKUPS)) {
+    try {
+      const candidates = await querySkuCandidates(admin, sku, match);
+      const ranked = rankSkuSuggestions(sku, candidates);
+      if (ranked.length > 0) {
+        suggestions[sku] = ranked;
+      }
+    } catch (error) {
+      console.error(`Failed to find suggestions for ${sku}:`, error);
+    }
+  }
+
+  return json<MatchPreviewResponse>({ matches, missing, suggestions });
+};
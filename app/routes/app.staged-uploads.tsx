@@ -0,0 +1,30 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import type { StagedUploadsResponse } from "~/types";
+import { createAdminClient } from "~/utils/adminClient.server";
+import { createStagedUploads } from "~/utils/shopifyMedia.server";
+
+/**
+ * Create staged upload targets so the browser can upload files straight to Shopify
+ * instead of sending them through the app server
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin: shopifyAdmin, session } = await authenticate.admin(request);
+  const admin = createAdminClient(shopifyAdmin, session.shop);
+
+  const formData = await request.formData();
+  const files: Array<{ originalFilename: string; fileType: string; fileSize: number }> =
+    JSON.parse(String(formData.get("files") || "[]"));
+
+  try {
+    const targets = await createStagedUploads(admin, files);
+    return json<StagedUploadsResponse>({ targets });
+  } catch (error) {
+    console.error("Staged upload error:", error);
+    return json<StagedUploadsResponse>(
+      { targets: [], error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+};
@@ -0,0 +1,31 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { countQueuedJobsByShop } from "~/utils/uploadJobs.server";
+import { getQueueDepths } from "~/utils/uploadScheduler.server";
+
+/**
+ * Upload queue depth per shop, for support. Requires SUPPORT_API_TOKEN as a bearer token
+ * and does not exist when that variable is not set.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const token = process.env.SUPPORT_API_TOKEN;
+  if (!token) {
+    throw new Response("Not found", { status: 404 });
+  }
+  if (request.headers.get("Authorization") !== `Bearer ${token}`) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const depths = new Map(getQueueDepths().map((depth) => [depth.shop, depth]));
+  const queuedJobs = await countQueuedJobsByShop();
+  const shops = Array.from(new Set([...depths.keys(), ...queuedJobs.keys()])).map((shop) => ({
+    shop,
+    plan: depths.get(shop)?.plan,
+    limit: depths.get(shop)?.limit,
+    running: depths.get(shop)?.running ?? 0,
+    waiting: depths.get(shop)?.waiting ?? 0,
+    queuedJobs: queuedJobs.get(shop) ?? 0,
+  }));
+
+  return json({ shops });
+};
@@ -1,6 +1,11 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import {
+  applyProductToIndex,
+  removeProductFromIndex,
+  type ProductWebhookPayload,
+} from "~/utils/catalogIndex.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { topic, shop, session, admin, payload } =
@@ -16,6 +21,13 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         await db.session.deleteMany({ where: { shop } });
       }
       break;
+    case "PRODUCTS_CREATE":
+    case "PRODUCTS_UPDATE":
+      await applyProductToIndex(shop, payload as ProductWebhookPayload);
+      break;
+    case "PRODUCTS_DELETE":
+      await removeProductFromIndex(shop, `gid://shopify/Product/${payload.id}`);
+      break;
     case "CUSTOMERS_DATA_REQUEST":
     case "CUSTOMERS_REDACT":
     case "SHOP_REDACT":
@@ -1,9 +1,43 @@
 // Upload Settings Configuration
 export interface UploadSettings {
   dryRun: boolean;
-  uploadStrategy: "replace" | "prepend" | "append";
+  uploadStrategy: "replace" | "prepend" | "append" | "position";
+  replaceFailurePolicy: "keep-old" | "rollback-new"; // Replace: what to do when only some new images succeed
+  positionMode: "insert" | "replace-slot"; // Position: shift existing images down, or swap out the image in that slot
   seoOptimization: boolean;
   altTextByPosition: Record<number, string>; // Custom alt text per sort position, e.g., {1: "Front", 2: "Back"}
+  filenamePattern: FilenamePattern;
+  assignVariantImage: boolean; // Link an uploaded image to the matched variant
+  variantImagePosition: number | null; // Sort position to link, null = first uploaded image
+  matchKey: MatchKey; // Which product identifier the filename value is matched against
+  matchMetafield: { namespace: string; key: string }; // Used when matchKey is "metafield"
+  useCatalogIndex: boolean; // Resolve SKUs and barcodes against the synced catalog index
+  imageOptimization: ImageOptimizationSettings;
+}
+
+// Processing applied on the server before files are staged
+export interface ImageOptimizationSettings {
+  enabled: boolean;
+  maxDimension: number | null; // Longest edge in pixels, null = keep the original size
+  quality: number; // 1-100, used for JPEG and WebP output; PNGs stay lossless
+  convertToWebp: boolean;
+  aspectRatio: "original" | "1:1" | "4:5" | "3:4"; // Width:height every image is brought to
+  aspectMode: "pad" | "crop"; // Pad with the background colour, or crop to fill
+  background: string; // Hex colour of the padding, e.g. "#FFFFFF"
+  autoTrim: boolean; // Remove uniform borders before fitting the image
+}
+
+// Product identifiers a filename can be matched against
+export type MatchKey = "sku" | "barcode" | "handle" | "productId" | "metafield";
+
+// Filename pattern used to extract SKU and sort order
+export interface FilenamePattern {
+  mode: "default" | "template" | "regex";
+  template: string; // Token template, e.g., "{sku}_{position}"
+  regex: string; // Advanced mode with named groups, e.g., "^(?<sku>.+)_(?<position>\\d+)$"
+  folderAsSku: boolean; // ZIP entries in a folder take the folder name as SKU
+  folderSortBy: "order" | "prefix"; // Sort by file order in the folder, or a numeric filename prefix
+  positionVocabulary: Record<string, number>; // Words accepted as sort positions, e.g., {front: 1, back: 2}
 }
 
 // Parsed file with extracted SKU and sort order
@@ -11,7 +45,11 @@ export interface ParsedFile {
   originalFilename: string;
   sku: string;
   sortOrder: number;
+  positionLabel?: string; // Vocabulary word the sort order came from, e.g., "front"
   file: File;
+  altText?: string; // Explicit alt text, e.g., from a manifest
+  sourcePath?: string; // Path inside the ZIP archive, if extracted from one
+  manifestRow?: number; // Manifest row that overrides the filename parse
   isValid: boolean;
   error?: string;
 }
@@ -24,6 +62,12 @@ export interface ParsedFileData {
   fileData: ArrayBuffer;
   fileType: string;
   fileSize: number;
+  positionLabel?: string;
+  altText?: string;
+  jobItemId?: string; // Upload job item this file belongs to
+  filePath?: string; // Stored copy on disk, loaded into fileData when processed
+  resourceUrl?: string; // Already uploaded to a staged target by the browser
+  contentHash?: string; // SHA-256 of the file contents, hex encoded
   isValid: boolean;
   error?: string;
 }
@@ -33,6 +77,8 @@ export interface ProductData {
   id: string;
   title: string;
   mediaIds: string[];
+  variantId?: string;
+  variantTitle?: string;
 }
 
 // Result of processing a single file
@@ -42,8 +88,17 @@ export interface ProcessingResult {
   productFound: boolean;
   productTitle?: string;
   productId?: string;
-  status: "skipped" | "success" | "error" | "dry-run";
+  variantTitle?: string;
+  variantId?: string;
+  variantImageLinked?: boolean;
+  mediaId?: string;
+  mediaStatus?: "READY" | "FAILED" | "PROCESSING"; // Shopify's processing state once the upload finished
+  imageUrl?: string; // CDN URL of the processed image
+  originalSize?: number; // Bytes before optimization, set when the image was optimized
+  optimizedSize?: number; // Bytes actually uploaded after optimization
+  status: "skipped" | "success" | "error" | "dry-run" | "duplicate";
   errorDetails?: string;
+  message?: string; // What was done, for rows that aren't uploads, e.g. "Restored" when undoing a job
 }
 
 // Upload task for the queue
@@ -66,14 +121,94 @@ export interface GroupedFiles {
   [sku: string]: ParsedFileData[];
 }
 
+// Product and variant a SKU or barcode resolved to in the catalog index
+export interface CatalogMatch {
+  productId: string;
+  productTitle: string;
+  variantId: string;
+  variantTitle: string;
+  mediaCount: number;
+}
+
+// State of a shop's catalog index export
+export interface CatalogSyncStatus {
+  status: "none" | "running" | "completed" | "failed";
+  variantCount: number;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+// Near-matching catalog value offered for an unmatched SKU
+export interface SkuSuggestion {
+  sku: string;
+  distance: number;
+  reason: "normalized" | "edit-distance";
+}
+
+// Pre-upload match check for a set of SKUs
+export interface MatchPreviewResponse {
+  matches: Record<string, { productTitle: string; variantTitle?: string }>;
+  missing: string[];
+  suggestions: Record<string, SkuSuggestion[]>;
+  fromIndex?: boolean; // Answered from the local catalog index; false when the index was unavailable
+}
+
+// Thumbnails of a finished dry run's optimized images, by filename
+export interface DryRunPreviewResponse {
+  jobId: string;
+  previews: Record<string, string>; // Data URLs, never stored with the job's results
+}
+
+// Staged upload targets handed to the browser for direct uploads
+export interface StagedUploadsResponse {
+  targets: StagedUploadTarget[];
+  error?: string;
+}
+
 // Action response
 export interface ActionResponse {
   success: boolean;
+  jobId?: string; // Set when the upload was queued as a background job
   results: ProcessingResult[];
   summary: {
     total: number;
     successful: number;
     failed: number;
     skipped: number;
+    dryRun?: number;
+    duplicate?: number;
   };
 }
+
+// Per-file progress event emitted while the queue runs
+export type UploadEventType =
+  | "staged"
+  | "uploaded"
+  | "media-created"
+  | "media-ready"
+  | "failed"
+  | "skipped"
+  | "duplicate"
+  | "dry-run";
+
+export interface UploadEvent {
+  type: UploadEventType;
+  filename: string;
+  sku: string;
+  message?: string;
+  createdAt: string; // ISO timestamp
+}
+
+// Status of a persisted upload job
+export interface UploadJobStatus {
+  jobId: string;
+  status: "pending" | "processing" | "completed" | "failed";
+  total: number;
+  processed: number;
+  results: ProcessingResult[];
+  summary: ActionResponse["summary"];
+  events: UploadEvent[]; // Most recent events, newest first
+  error?: string;
+  canUndo: boolean; // Finished, not undone yet, and has a media snapshot to restore
+}
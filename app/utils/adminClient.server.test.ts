@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createAdminClient, type AdminContext } from "./adminClient.server";
+
+const QUERY = "query GetShop { shop { id } }";
+
+// Errors shaped like the ones the Shopify API library throws
+function throttledError() {
+  return Object.assign(new Error("Throttled"), {
+    body: { errors: { graphQLErrors: [{ extensions: { code: "THROTTLED" } }] } },
+  });
+}
+
+function httpError(code: number, retryAfter?: number) {
+  return Object.assign(new Error(`HTTP ${code}`), { response: { code, retryAfter } });
+}
+
+/**
+ * Admin context that fails with each of `failures` in turn, then answers with `body`
+ */
+function fakeAdmin(failures: unknown[], body: Record<string, unknown> = { data: { shop: { id: "1" } } }) {
+  const admin: AdminContext & { calls: number } = {
+    calls: 0,
+    graphql: async () => {
+      const failure = failures[admin.calls++];
+      if (failure) throw failure;
+      return Response.json(body);
+    },
+  };
+  return admin;
+}
+
+// Runs a call to completion, skipping its waits, and returns how long it waited
+async function timed<T>(call: Promise<T>): Promise<{ result: Promise<T>; waited: number }> {
+  const start = Date.now();
+  // Rejections are checked by the test once the waits are done
+  call.catch(() => {});
+  await vi.runAllTimersAsync();
+  return { result: call, waited: Date.now() - start };
+}
+
+let shopCount = 0;
+const nextShop = () => `shop-${++shopCount}.myshopify.com`;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // Longest backoff, so waits are predictable
+  vi.spyOn(Math, "random").mockReturnValue(1);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("createAdminClient", () => {
+  it("retries throttled requests with exponential backoff", async () => {
+    const admin = fakeAdmin([throttledError(), throttledError()]);
+
+    const { result, waited } = await timed(createAdminClient(admin, nextShop()).graphql(QUERY));
+
+    await expect(result).resolves.toBeInstanceOf(Response);
+    expect(admin.calls).toBe(3);
+    expect(waited).toBe(500 + 1000);
+  });
+
+  it("retries 5xx responses, waiting as long as Shopify asks", async () => {
+    const admin = fakeAdmin([httpError(503, 3)]);
+
+    const { result, waited } = await timed(createAdminClient(admin, nextShop()).graphql(QUERY));
+
+    await expect(result).resolves.toBeInstanceOf(Response);
+    expect(admin.calls).toBe(2);
+    expect(waited).toBe(3000);
+  });
+
+  it("retries network failures", async () => {
+    const admin = fakeAdmin([new TypeError("fetch failed")]);
+
+    const { result } = await timed(createAdminClient(admin, nextShop()).graphql(QUERY));
+
+    await expect(result).resolves.toBeInstanceOf(Response);
+    expect(admin.calls).toBe(2);
+  });
+
+  it("gives up after five attempts", async () => {
+    const admin = fakeAdmin(Array.from({ length: 5 }, () => httpError(500)));
+
+    const { result } = await timed(createAdminClient(admin, nextShop()).graphql(QUERY));
+
+    await expect(result).rejects.toThrow("HTTP 500");
+    expect(admin.calls).toBe(5);
+  });
+
+  it("does not retry 4xx responses", async () => {
+    const admin = fakeAdmin([httpError(400)]);
+
+    const { result, waited } = await timed(createAdminClient(admin, nextShop()).graphql(QUERY));
+
+    await expect(result).rejects.toThrow("HTTP 400");
+    expect(admin.calls).toBe(1);
+    expect(waited).toBe(0);
+  });
+
+  it("does not retry responses with user errors", async () => {
+    const admin = fakeAdmin([], { data: { productCreateMedia: { mediaUserErrors: [{ message: "Invalid URL" }] } } });
+
+    const { result } = await timed(createAdminClient(admin, nextShop()).graphql(QUERY));
+
+    const response = await result;
+    expect((await response.json()).data.productCreateMedia.mediaUserErrors).toHaveLength(1);
+    expect(admin.calls).toBe(1);
+  });
+
+  it("waits for the cost budget Shopify reported before the next request", async () => {
+    const admin = fakeAdmin([], {
+      data: {},
+      extensions: {
+        cost: {
+          requestedQueryCost: 100,
+          throttleStatus: { maximumAvailable: 1000, currentlyAvailable: 0, restoreRate: 50 },
+        },
+      },
+    });
+    const client = createAdminClient(admin, nextShop());
+
+    const first = await timed(client.graphql(QUERY));
+    await first.result;
+    const second = await timed(client.graphql(QUERY));
+    await second.result;
+
+    expect(first.waited).toBe(0);
+    // 100 points at 50 per second
+    expect(second.waited).toBe(2000);
+  });
+});
@@ -0,0 +1,169 @@
+export interface AdminContext {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
+}
+
+interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+interface QueryCost {
+  requestedQueryCost?: number;
+  throttleStatus?: ThrottleStatus;
+}
+
+interface CostBudget {
+  available: number;
+  maximum: number;
+  restoreRate: number;
+  updatedAt: number;
+}
+
+// Retry settings for throttled, 5xx and network failures
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 20000;
+
+// Cost assumed for a query until Shopify has reported its actual cost
+const DEFAULT_QUERY_COST = 50;
+
+// Standard plan bucket, replaced by the real values after the first response
+const DEFAULT_BUDGET = { maximum: 2000, restoreRate: 100 };
+
+// The cost bucket is shared by every request the app makes for a shop
+const budgets = new Map<string, CostBudget>();
+const queryCosts = new Map<string, number>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter, so parallel retries spread out
+ */
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** attempt);
+}
+
+/**
+ * Whether a failed request is worth retrying, and how long Shopify asked us to wait.
+ * Errors from the Shopify API library are matched by shape since it is not a direct dependency.
+ */
+function classifyError(error: unknown): { retriable: boolean; retryAfter?: number } {
+  if (!(error instanceof Error)) return { retriable: false };
+
+  const { body, response } = error as Error & {
+    body?: { errors?: { graphQLErrors?: Array<{ extensions?: { code?: string } }> } };
+    response?: { code?: number; retryAfter?: number };
+  };
+
+  // GraphQL-level throttling comes back as a 200 with a THROTTLED error
+  if (body?.errors?.graphQLErrors?.some((e) => e.extensions?.code === "THROTTLED")) {
+    return { retriable: true };
+  }
+
+  if (typeof response?.code === "number") {
+    const retriable = response.code === 429 || response.code >= 500;
+    return {
+      retriable,
+      retryAfter: response.retryAfter ? response.retryAfter * 1000 : undefined,
+    };
+  }
+
+  // Network failures: fetch rejects with a TypeError, the library wraps it in HttpRequestError
+  return {
+    retriable: error instanceof TypeError || error.constructor.name === "HttpRequestError",
+  };
+}
+
+/**
+ * Run an operation, retrying retriable failures with jittered exponential backoff
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  isRetriable: (error: unknown) => { retriable: boolean; retryAfter?: number } = classifyError
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const { retriable, retryAfter } = isRetriable(error);
+      if (!retriable || attempt >= MAX_ATTEMPTS - 1) throw error;
+      await sleep(retryAfter ?? backoffDelay(attempt));
+    }
+  }
+}
+
+/**
+ * Wait until the shop's estimated budget covers the query, then reserve its cost
+ */
+async function reserveBudget(shop: string, cost: number): Promise<void> {
+  const budget = budgets.get(shop);
+  if (!budget) return;
+
+  const now = Date.now();
+  const restored = ((now - budget.updatedAt) / 1000) * budget.restoreRate;
+  budget.available = Math.min(budget.maximum, budget.available + restored);
+  budget.updatedAt = now;
+
+  // Reserving before waiting makes concurrent callers queue behind each other
+  const needed = Math.min(cost, budget.maximum);
+  budget.available -= needed;
+  if (budget.available < 0) {
+    await sleep((-budget.available / budget.restoreRate) * 1000);
+  }
+}
+
+/**
+ * Record the cost Shopify reported so later requests are paced against the real budget
+ */
+function recordCost(shop: string, query: string, cost?: QueryCost): void {
+  if (!cost) return;
+
+  if (cost.requestedQueryCost) {
+    queryCosts.set(query, cost.requestedQueryCost);
+  }
+  if (cost.throttleStatus) {
+    budgets.set(shop, {
+      available: cost.throttleStatus.currentlyAvailable,
+      maximum: cost.throttleStatus.maximumAvailable,
+      restoreRate: cost.throttleStatus.restoreRate,
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Wrap an admin API context so every GraphQL call is paced against the shop's
+ * cost budget and retried when throttled or on transient failures
+ */
+export function createAdminClient(admin: AdminContext, shop: string): AdminContext {
+  if (!budgets.has(shop)) {
+    budgets.set(shop, {
+      available: DEFAULT_BUDGET.maximum,
+      maximum: DEFAULT_BUDGET.maximum,
+      restoreRate: DEFAULT_BUDGET.restoreRate,
+      updatedAt: Date.now(),
+    });
+  }
+
+  return {
+    graphql: (query, options) =>
+      withRetry(async () => {
+        await reserveBudget(shop, queryCosts.get(query) ?? DEFAULT_QUERY_COST);
+
+        try {
+          const response = await admin.graphql(query, options);
+          const body = await response.clone().json();
+          recordCost(shop, query, body?.extensions?.cost);
+          return response;
+        } catch (error) {
+          // Throttled responses still report the current budget
+          const { body } = error as { body?: { extensions?: { cost?: QueryCost } } };
+          recordCost(shop, query, body?.extensions?.cost);
+          throw error;
+        }
+      }),
+  };
+}
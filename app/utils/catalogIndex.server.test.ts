@@ -0,0 +1,223 @@
+import { readFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+interface VariantRow {
+  id: string;
+  shop: string;
+  sku: string | null;
+  barcode: string | null;
+  variantTitle: string;
+  productId: string;
+  productTitle: string;
+  mediaCount: number;
+}
+
+// Shared with the mocks, which vi.mock hoists above the imports
+const { store, bulkOperation, bulkAdmin } = vi.hoisted(() => {
+  const bulkOperation = { statuses: [] as string[], url: "" };
+
+  // Answers each poll with the next queued status, and the mock server's URL once done
+  const bulkAdmin = {
+    graphql: async (query: string) => {
+      if (query.includes("RunCatalogExport")) {
+        return Response.json({
+          data: { bulkOperationRunQuery: { bulkOperation: { id: "gid://shopify/BulkOperation/1" }, userErrors: [] } },
+        });
+      }
+      const status = bulkOperation.statuses.shift() ?? "COMPLETED";
+      return Response.json({
+        data: {
+          node: {
+            status,
+            errorCode: status === "FAILED" ? "INTERNAL_SERVER_ERROR" : null,
+            url: status === "COMPLETED" ? bulkOperation.url : null,
+          },
+        },
+      });
+    },
+  };
+
+  return {
+    store: {
+      variants: [] as VariantRow[],
+      syncs: new Map<string, Record<string, unknown>>(),
+      calls: [] as string[],
+    },
+    bulkOperation,
+    bulkAdmin,
+  };
+});
+
+// In-memory stand-ins for the Prisma models the index uses
+vi.mock("~/db.server", () => {
+  const matches = (row: VariantRow, where: Record<string, unknown>) =>
+    Object.entries(where).every(([field, condition]) => {
+      const value = row[field as keyof VariantRow];
+      return condition && typeof condition === "object" && "in" in condition
+        ? (condition.in as unknown[]).includes(value)
+        : value === condition;
+    });
+
+  return {
+    default: {
+      catalogVariant: {
+        deleteMany: async ({ where }: { where: Record<string, unknown> }) => {
+          store.calls.push("deleteMany");
+          store.variants = store.variants.filter((row) => !matches(row, where));
+        },
+        createMany: async ({ data }: { data: VariantRow[] }) => {
+          store.calls.push("createMany");
+          store.variants.push(...data);
+        },
+        findMany: async ({ where }: { where: Record<string, unknown> }) =>
+          store.variants.filter((row) => matches(row, where)).sort((a, b) => a.id.localeCompare(b.id)),
+      },
+      catalogSync: {
+        findUnique: async ({ where }: { where: { shop: string } }) => store.syncs.get(where.shop) ?? null,
+        upsert: async ({ where, create, update }: Record<string, Record<string, unknown>>) => {
+          const shop = where.shop as string;
+          store.syncs.set(shop, { ...(store.syncs.get(shop) ?? create), ...update });
+        },
+        update: async ({ where, data }: { where: { shop: string }; data: Record<string, unknown> }) => {
+          store.syncs.set(where.shop, { ...store.syncs.get(where.shop), ...data });
+        },
+      },
+      $transaction: (operations: Array<Promise<unknown>>) => Promise.all(operations),
+    },
+  };
+});
+
+vi.mock("~/shopify.server", () => ({
+  unauthenticated: { admin: async () => ({ admin: bulkAdmin }) },
+}));
+
+const { findCatalogMatches, getCatalogSyncStatus, importCatalogExport, startCatalogSync } = await import(
+  "./catalogIndex.server"
+);
+
+const SHOP = "test-shop.myshopify.com";
+
+// Serves the fixture export, and a smaller export standing in for a later re-sync
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const fixture = await readFile(new URL("./__fixtures__/catalogExport.jsonl", import.meta.url));
+  server = createServer((request, response) => {
+    if (request.url === "/export.jsonl") {
+      response.end(fixture);
+    } else if (request.url === "/reexport.jsonl") {
+      response.end(
+        JSON.stringify({
+          id: "gid://shopify/ProductVariant/102",
+          title: "Large",
+          sku: "dress-l",
+          barcode: null,
+          product: { id: "gid://shopify/Product/10", title: "Summer Dress", mediaCount: { count: 4 } },
+        }) + "\n"
+      );
+    } else {
+      response.statusCode = 404;
+      response.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  store.variants = [];
+  store.syncs.clear();
+  store.calls = [];
+  bulkOperation.statuses = [];
+  bulkOperation.url = `${baseUrl}/export.jsonl`;
+});
+
+describe("importCatalogExport", () => {
+  it("imports every variant of the export", async () => {
+    const count = await importCatalogExport(SHOP, `${baseUrl}/export.jsonl`);
+
+    expect(count).toBe(4);
+    expect(store.variants.map(({ id, sku, barcode, mediaCount }) => ({ id, sku, barcode, mediaCount }))).toEqual([
+      { id: "gid://shopify/ProductVariant/101", sku: "DRESS-S", barcode: "0001234", mediaCount: 3 },
+      { id: "gid://shopify/ProductVariant/102", sku: "DRESS-L", barcode: null, mediaCount: 3 },
+      { id: "gid://shopify/ProductVariant/201", sku: null, barcode: "0005678", mediaCount: 0 },
+      { id: "gid://shopify/ProductVariant/301", sku: "SCARF-1", barcode: null, mediaCount: 0 },
+    ]);
+    expect(store.variants.every((row) => row.shop === SHOP)).toBe(true);
+  });
+
+  it("replaces the shop's rows on re-import and leaves other shops alone", async () => {
+    store.variants.push({
+      id: "gid://shopify/ProductVariant/999",
+      shop: "other-shop.myshopify.com",
+      sku: "DRESS-S",
+      barcode: null,
+      variantTitle: "Default Title",
+      productId: "gid://shopify/Product/99",
+      productTitle: "Other",
+      mediaCount: 1,
+    });
+    await importCatalogExport(SHOP, `${baseUrl}/export.jsonl`);
+    store.calls = [];
+
+    const count = await importCatalogExport(SHOP, `${baseUrl}/reexport.jsonl`);
+
+    expect(count).toBe(1);
+    expect(store.calls).toEqual(["deleteMany", "createMany"]);
+    expect(store.variants.map(({ shop, sku, mediaCount }) => ({ shop, sku, mediaCount }))).toEqual([
+      { shop: "other-shop.myshopify.com", sku: "DRESS-S", mediaCount: 1 },
+      { shop: SHOP, sku: "DRESS-L", mediaCount: 4 },
+    ]);
+  });
+
+  it("keeps the current index when the download fails", async () => {
+    await importCatalogExport(SHOP, `${baseUrl}/export.jsonl`);
+
+    await expect(importCatalogExport(SHOP, `${baseUrl}/missing.jsonl`)).rejects.toThrow(
+      "Failed to download catalog export: 404"
+    );
+    expect(store.variants).toHaveLength(4);
+  });
+});
+
+describe("startCatalogSync", () => {
+  it("polls the bulk operation until done, then imports its result", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    try {
+      bulkOperation.statuses = ["CREATED", "RUNNING", "COMPLETED"];
+
+      const status = await startCatalogSync(bulkAdmin, SHOP);
+      expect(status.status).toBe("running");
+
+      await vi.waitFor(async () => {
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(store.syncs.get(SHOP)?.status).toBe("completed");
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const sync = await getCatalogSyncStatus(SHOP);
+    expect(sync).toMatchObject({ status: "completed", variantCount: 4 });
+    expect(bulkOperation.statuses).toEqual([]);
+
+    const matches = await findCatalogMatches(SHOP, "sku", ["dress-s", "Scarf-1", "UNKNOWN"]);
+    expect(Array.from(matches.keys())).toEqual(["dress-s", "Scarf-1"]);
+    expect(matches.get("dress-s")).toMatchObject({ productTitle: "Summer Dress", variantTitle: "Small" });
+  });
+
+  it("records a failed export", async () => {
+    bulkOperation.statuses = ["FAILED"];
+
+    await startCatalogSync(bulkAdmin, SHOP);
+
+    await vi.waitFor(() => expect(store.syncs.get(SHOP)?.status).toBe("failed"));
+    expect(store.syncs.get(SHOP)?.error).toBe("Catalog export failed: INTERNAL_SERVER_ERROR");
+    expect(store.variants).toEqual([]);
+  });
+});
@@ -0,0 +1,362 @@
+import readline from "node:readline";
+import { Readable } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import db from "~/db.server";
+import { unauthenticated } from "~/shopify.server";
+import type { CatalogMatch, CatalogSyncStatus, UploadSettings } from "~/types";
+import { createAdminClient, type AdminContext } from "./adminClient.server";
+
+// Bulk operations usually take seconds to minutes; check on them at this interval
+const BULK_POLL_INTERVAL = 5000;
+
+// Rows written per createMany call while importing the export
+const IMPORT_BATCH_SIZE = 500;
+
+// Values looked up per index query
+const LOOKUP_BATCH_SIZE = 500;
+
+// Without an export or product webhook for this long, the index may have missed changes
+const CATALOG_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+const CATALOG_EXPORT_QUERY = `{
+  productVariants {
+    edges {
+      node {
+        id
+        title
+        sku
+        barcode
+        product {
+          id
+          title
+          mediaCount {
+            count
+          }
+        }
+      }
+    }
+  }
+}`;
+
+interface ExportedVariant {
+  id: string;
+  title: string;
+  sku: string | null;
+  barcode: string | null;
+  product: { id: string; title: string; mediaCount: { count: number } | null };
+}
+
+// Product as delivered by the PRODUCTS_CREATE and PRODUCTS_UPDATE webhooks
+export interface ProductWebhookPayload {
+  admin_graphql_api_id: string;
+  title: string;
+  variants?: Array<{
+    admin_graphql_api_id: string;
+    title: string;
+    sku: string | null;
+    barcode: string | null;
+  }>;
+  media?: unknown[];
+  images?: unknown[];
+}
+
+declare global {
+  var catalogSyncPolls: Set<string> | undefined;
+}
+
+// Kept on global so dev-server reloads don't poll the same export twice
+const activePolls: Set<string> = global.catalogSyncPolls ?? new Set();
+global.catalogSyncPolls = activePolls;
+
+/**
+ * Current state of the shop's catalog index
+ */
+export async function getCatalogSyncStatus(shop: string): Promise<CatalogSyncStatus> {
+  const sync = await db.catalogSync.findUnique({ where: { shop } });
+  if (!sync) return { status: "none", variantCount: 0 };
+
+  // A restart stops the poller; pick the export back up where it is
+  if (sync.status === "running" && sync.bulkOperationId && !activePolls.has(shop)) {
+    void pollCatalogExport(shop, sync.bulkOperationId);
+  }
+
+  return {
+    status: sync.status as CatalogSyncStatus["status"],
+    variantCount: sync.variantCount,
+    error: sync.error ?? undefined,
+    startedAt: sync.startedAt.toISOString(),
+    completedAt: sync.completedAt?.toISOString(),
+  };
+}
+
+/**
+ * Start a bulk export of all variants. The export is polled and imported in the background.
+ */
+export async function startCatalogSync(
+  admin: AdminContext,
+  shop: string
+): Promise<CatalogSyncStatus> {
+  const current = await getCatalogSyncStatus(shop);
+  if (current.status === "running") return current;
+
+  const response = await admin.graphql(
+    `#graphql
+    mutation RunCatalogExport($query: String!) {
+      bulkOperationRunQuery(query: $query) {
+        bulkOperation {
+          id
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    {
+      variables: { query: CATALOG_EXPORT_QUERY },
+    }
+  );
+
+  const data = await response.json();
+  const result = data.data?.bulkOperationRunQuery;
+  if (result?.userErrors?.length > 0) {
+    throw new Error(`Catalog export error: ${result.userErrors[0].message}`);
+  }
+
+  const bulkOperationId: string | undefined = result?.bulkOperation?.id;
+  if (!bulkOperationId) {
+    throw new Error("No bulk operation returned");
+  }
+
+  const sync = {
+    status: "running",
+    bulkOperationId,
+    error: null,
+    startedAt: new Date(),
+    completedAt: null,
+  };
+  await db.catalogSync.upsert({
+    where: { shop },
+    create: { shop, ...sync },
+    update: sync,
+  });
+
+  void pollCatalogExport(shop, bulkOperationId);
+
+  return getCatalogSyncStatus(shop);
+}
+
+/**
+ * Wait for the bulk operation to finish, then import its JSONL result
+ */
+async function pollCatalogExport(shop: string, bulkOperationId: string): Promise<void> {
+  if (activePolls.has(shop)) return;
+  activePolls.add(shop);
+
+  try {
+    const { admin: shopifyAdmin } = await unauthenticated.admin(shop);
+    const admin = createAdminClient(shopifyAdmin, shop);
+
+    for (;;) {
+      const response = await admin.graphql(
+        `#graphql
+        query GetBulkOperation($id: ID!) {
+          node(id: $id) {
+            ... on BulkOperation {
+              status
+              errorCode
+              url
+            }
+          }
+        }`,
+        {
+          variables: { id: bulkOperationId },
+        }
+      );
+
+      const data = await response.json();
+      const operation: { status: string; errorCode: string | null; url: string | null } | null =
+        data.data?.node ?? null;
+
+      if (!operation) {
+        throw new Error("Catalog export not found");
+      }
+      if (operation.status === "COMPLETED") {
+        // Shops without variants produce no result file
+        const variantCount = operation.url ? await importCatalogExport(shop, operation.url) : 0;
+        await db.catalogSync.update({
+          where: { shop },
+          data: { status: "completed", variantCount, completedAt: new Date(), refreshedAt: new Date() },
+        });
+        return;
+      }
+      if (operation.status !== "CREATED" && operation.status !== "RUNNING") {
+        throw new Error(`Catalog export ${operation.status.toLowerCase()}: ${operation.errorCode ?? "no details"}`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, BULK_POLL_INTERVAL));
+    }
+  } catch (error) {
+    console.error(`Catalog sync for ${shop} failed:`, error);
+    await db.catalogSync.update({
+      where: { shop },
+      data: {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        completedAt: new Date(),
+      },
+    });
+  } finally {
+    activePolls.delete(shop);
+  }
+}
+
+/**
+ * Replace the shop's index with the rows of a bulk export, streamed line by line
+ */
+export async function importCatalogExport(shop: string, url: string): Promise<number> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download catalog export: ${response.status} ${response.statusText}`);
+  }
+
+  await db.catalogVariant.deleteMany({ where: { shop } });
+
+  const lines = readline.createInterface({
+    input: Readable.fromWeb(response.body as WebReadableStream),
+    crlfDelay: Infinity,
+  });
+
+  let batch: ExportedVariant[] = [];
+  let count = 0;
+  const flush = async () => {
+    await db.catalogVariant.createMany({
+      data: batch.map((variant) => ({
+        id: variant.id,
+        shop,
+        sku: variant.sku?.toUpperCase() || null,
+        barcode: variant.barcode?.toUpperCase() || null,
+        variantTitle: variant.title,
+        productId: variant.product.id,
+        productTitle: variant.product.title,
+        mediaCount: variant.product.mediaCount?.count ?? 0,
+      })),
+    });
+    count += batch.length;
+    batch = [];
+  };
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    batch.push(JSON.parse(line));
+    if (batch.length >= IMPORT_BATCH_SIZE) await flush();
+  }
+  if (batch.length > 0) await flush();
+
+  return count;
+}
+
+/**
+ * Whether the index can answer lookups: fully imported and kept up to date recently
+ */
+async function isCatalogIndexFresh(shop: string): Promise<boolean> {
+  const sync = await db.catalogSync.findUnique({ where: { shop } });
+  if (sync?.status !== "completed" || !sync.refreshedAt) return false;
+  return Date.now() - sync.refreshedAt.getTime() < CATALOG_MAX_AGE;
+}
+
+/**
+ * Replace a product's variants in the index after it was created or updated
+ */
+export async function applyProductToIndex(shop: string, product: ProductWebhookPayload): Promise<void> {
+  // Only shops that have seeded the index keep it updated
+  const sync = await db.catalogSync.findUnique({ where: { shop } });
+  if (sync?.status !== "completed") return;
+
+  const productId = product.admin_graphql_api_id;
+  const mediaCount = product.media?.length ?? product.images?.length ?? 0;
+
+  await db.$transaction([
+    db.catalogVariant.deleteMany({ where: { shop, productId } }),
+    db.catalogVariant.createMany({
+      data: (product.variants ?? []).map((variant) => ({
+        id: variant.admin_graphql_api_id,
+        shop,
+        sku: variant.sku?.toUpperCase() || null,
+        barcode: variant.barcode?.toUpperCase() || null,
+        variantTitle: variant.title,
+        productId,
+        productTitle: product.title,
+        mediaCount,
+      })),
+    }),
+    db.catalogSync.update({ where: { shop }, data: { refreshedAt: new Date() } }),
+  ]);
+}
+
+/**
+ * Drop a deleted product's variants from the index
+ */
+export async function removeProductFromIndex(shop: string, productId: string): Promise<void> {
+  const sync = await db.catalogSync.findUnique({ where: { shop } });
+  if (sync?.status !== "completed") return;
+
+  await db.$transaction([
+    db.catalogVariant.deleteMany({ where: { shop, productId } }),
+    db.catalogSync.update({ where: { shop }, data: { refreshedAt: new Date() } }),
+  ]);
+}
+
+/**
+ * Look up SKUs or barcodes in the shop's catalog index
+ */
+export async function findCatalogMatches(
+  shop: string,
+  field: "sku" | "barcode",
+  values: string[]
+): Promise<Map<string, CatalogMatch>> {
+  const matches = new Map<string, CatalogMatch>();
+
+  for (let i = 0; i < values.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = values.slice(i, i + LOOKUP_BATCH_SIZE);
+    const byValue = new Map(batch.map((value) => [value.toUpperCase(), value]));
+
+    const rows = await db.catalogVariant.findMany({
+      where: { shop, [field]: { in: Array.from(byValue.keys()) } },
+      orderBy: { id: "asc" },
+    });
+
+    for (const row of rows) {
+      const value = byValue.get(row[field] ?? "");
+      if (value && !matches.has(value)) {
+        matches.set(value, {
+          productId: row.productId,
+          productTitle: row.productTitle,
+          variantId: row.id,
+          variantTitle: row.variantTitle,
+          mediaCount: row.mediaCount,
+        });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Index lookup to pass to queryProductsBySKUs, or undefined when the upload should
+ * query Shopify directly: the index is off, stale, or can't answer the match key
+ */
+export async function getCatalogResolver(
+  shop: string,
+  settings: Pick<UploadSettings, "matchKey" | "useCatalogIndex">
+): Promise<((values: string[]) => Promise<Map<string, CatalogMatch>>) | undefined> {
+  const { matchKey } = settings;
+  if (!settings.useCatalogIndex || (matchKey !== "sku" && matchKey !== "barcode")) {
+    return undefined;
+  }
+
+  if (!(await isCatalogIndexFresh(shop))) return undefined;
+
+  return (values) => findCatalogMatches(shop, matchKey, values);
+}
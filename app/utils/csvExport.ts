@@ -1,4 +1,5 @@
-import type { ProcessingResult } from "~/types";
+import type { MatchKey, ProcessingResult } from "~/types";
+import { getMatchKeyLabel } from "./matchKeys";
 
 /**
  * Escape a value for CSV format
@@ -25,14 +26,21 @@ function escapeCSV(value: string): string {
 /**
  * Generate CSV content from processing results
  */
-export function generateCSV(results: ProcessingResult[]): string {
+export function generateCSV(results: ProcessingResult[], matchKey: MatchKey = "sku"): string {
   const headers = [
     "Filename",
-    "Detected SKU",
+    `Detected ${getMatchKeyLabel(matchKey)}`,
     "Product Found",
     "Product Title",
+    "Variant",
+    "Variant Image Set",
     "Status",
+    "Media Status",
+    "Image URL",
+    "Original Size (bytes)",
+    "Uploaded Size (bytes)",
     "Error Details",
+    "Notes",
   ];
 
   const rows = results.map((result) => [
@@ -40,8 +48,15 @@ export function generateCSV(results: ProcessingResult[]): string {
     result.detectedSku,
     result.productFound ? "Yes" : "No",
     result.productTitle || "",
+    result.variantTitle || "",
+    result.variantImageLinked ? "Yes" : "No",
     formatStatus(result.status),
+    result.mediaStatus || "",
+    result.imageUrl || "",
+    result.originalSize !== undefined ? String(result.originalSize) : "",
+    result.optimizedSize !== undefined ? String(result.optimizedSize) : "",
     result.errorDetails || "",
+    result.message || "",
   ]);
 
   const csvContent = [headers, ...rows]
@@ -64,6 +79,8 @@ function formatStatus(status: ProcessingResult["status"]): string {
       return "Skipped";
     case "dry-run":
       return "Dry Run (Not Uploaded)";
+    case "duplicate":
+      return "Duplicate (Not Uploaded)";
     default:
       return status;
   }
@@ -72,8 +89,11 @@ function formatStatus(status: ProcessingResult["status"]): string {
 /**
  * Create a downloadable CSV blob URL
  */
-export function createCSVDownloadURL(results: ProcessingResult[]): string {
-  const csvContent = generateCSV(results);
+export function createCSVDownloadURL(
+  results: ProcessingResult[],
+  matchKey: MatchKey = "sku"
+): string {
+  const csvContent = generateCSV(results, matchKey);
   const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
   return URL.createObjectURL(blob);
 }
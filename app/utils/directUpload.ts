@@ -0,0 +1,96 @@
+import type { StagedUploadTarget, StagedUploadsResponse } from "~/types";
+
+// Parallel browser uploads to the staged targets
+const DIRECT_UPLOAD_CONCURRENCY = 4;
+
+export interface DirectUploadResult {
+  resourceUrl?: string;
+  contentHash?: string; // Lets the server skip images already on the product
+  error?: string;
+}
+
+/**
+ * Ask the app for staged upload targets, one per file, in the same order
+ */
+export async function requestStagedTargets(files: File[]): Promise<StagedUploadTarget[]> {
+  const formData = new FormData();
+  formData.append(
+    "files",
+    JSON.stringify(
+      files.map((file) => ({
+        originalFilename: file.name,
+        fileType: file.type,
+        fileSize: file.size,
+      }))
+    )
+  );
+
+  const response = await fetch("/app/staged-uploads", { method: "POST", body: formData });
+  const data: StagedUploadsResponse = await response.json();
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || `Could not prepare uploads: ${response.status}`);
+  }
+
+  return data.targets;
+}
+
+/**
+ * SHA-256 of a file's contents, hex encoded
+ */
+async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Upload a file from the browser straight to its staged target
+ */
+async function uploadFileToTarget(target: StagedUploadTarget, file: File): Promise<void> {
+  const formData = new FormData();
+  for (const param of target.parameters) {
+    formData.append(param.name, param.value);
+  }
+  formData.append("file", file, file.name);
+
+  const response = await fetch(target.url, { method: "POST", body: formData });
+  if (!response.ok) {
+    throw new Error(`Failed to upload file: ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Upload files to Shopify without routing them through the app server.
+ * Failures are returned per file so the rest of the batch can continue.
+ */
+export async function uploadFilesDirect(
+  files: File[],
+  onProgress?: (done: number, total: number) => void
+): Promise<DirectUploadResult[]> {
+  const targets = await requestStagedTargets(files);
+  const results: DirectUploadResult[] = new Array(files.length);
+  let next = 0;
+  let done = 0;
+
+  const uploadNext = async (): Promise<void> => {
+    while (next < files.length) {
+      const index = next++;
+      try {
+        await uploadFileToTarget(targets[index], files[index]);
+        results[index] = {
+          resourceUrl: targets[index].resourceUrl,
+          contentHash: await hashFile(files[index]),
+        };
+      } catch (error) {
+        results[index] = { error: error instanceof Error ? error.message : "Unknown upload error" };
+      }
+      onProgress?.(++done, files.length);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(DIRECT_UPLOAD_CONCURRENCY, files.length) }, uploadNext)
+  );
+
+  return results;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { getDryRunPreviews, saveDryRunPreview } from "./dryRunPreviews.server";
+
+describe("dry-run previews", () => {
+  it("returns a job's previews only to its shop", () => {
+    saveDryRunPreview("job-1", "a.myshopify.com", "DRESS-1.jpg", "data:image/webp;base64,AAAA");
+    saveDryRunPreview("job-1", "a.myshopify.com", "DRESS-2.jpg", "data:image/webp;base64,BBBB");
+
+    expect(getDryRunPreviews("job-1", "a.myshopify.com")).toEqual({
+      "DRESS-1.jpg": "data:image/webp;base64,AAAA",
+      "DRESS-2.jpg": "data:image/webp;base64,BBBB",
+    });
+    expect(getDryRunPreviews("job-1", "b.myshopify.com")).toEqual({});
+  });
+
+  it("drops the oldest jobs' previews", () => {
+    for (let job = 0; job <= 20; job++) {
+      saveDryRunPreview(`evict-${job}`, "a.myshopify.com", "DRESS-1.jpg", `data:image/webp;base64,${job}`);
+    }
+
+    expect(getDryRunPreviews("evict-0", "a.myshopify.com")).toEqual({});
+    expect(getDryRunPreviews("evict-20", "a.myshopify.com")).toEqual({ "DRESS-1.jpg": "data:image/webp;base64,20" });
+  });
+});
@@ -0,0 +1,40 @@
+// Previews are only looked at right after a dry run, so they are kept in memory
+// for the most recent jobs instead of being stored with the results
+const MAX_JOBS = 20;
+
+interface JobPreviews {
+  shop: string;
+  previews: Record<string, string>; // Data URLs by filename
+}
+
+declare global {
+  var dryRunPreviews: Map<string, JobPreviews> | undefined;
+}
+
+// Kept on global so dev-server reloads don't lose the previews of a running job
+const store = global.dryRunPreviews ?? new Map<string, JobPreviews>();
+global.dryRunPreviews = store;
+
+/**
+ * Keep a file's preview with its job, dropping the oldest jobs' previews once over the limit
+ */
+export function saveDryRunPreview(jobId: string, shop: string, filename: string, previewUrl: string): void {
+  let job = store.get(jobId);
+  if (!job) {
+    job = { shop, previews: {} };
+    store.set(jobId, job);
+    for (const oldestJobId of store.keys()) {
+      if (store.size <= MAX_JOBS) break;
+      store.delete(oldestJobId);
+    }
+  }
+  job.previews[filename] = previewUrl;
+}
+
+/**
+ * Previews of a job, scoped to the requesting shop
+ */
+export function getDryRunPreviews(jobId: string, shop: string): Record<string, string> {
+  const job = store.get(jobId);
+  return job?.shop === shop ? job.previews : {};
+}
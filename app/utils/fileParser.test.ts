@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import type { FilenamePattern } from "~/types";
+import {
+  DEFAULT_FILENAME_PATTERN,
+  compileFilenamePattern,
+  findPositionWord,
+  groupFilesBySku,
+  parseFileEntries,
+  parseFilename,
+  parsePositionVocabulary,
+  validateFilenamePattern,
+} from "./fileParser";
+
+function image(name: string, size = 1024): File {
+  return new File([new Uint8Array(size)], name, { type: "image/jpeg" });
+}
+
+const templatePattern = (template: string): FilenamePattern => ({
+  ...DEFAULT_FILENAME_PATTERN,
+  mode: "template",
+  template,
+});
+
+const regexPattern = (regex: string): FilenamePattern => ({
+  ...DEFAULT_FILENAME_PATTERN,
+  mode: "regex",
+  regex,
+});
+
+describe("parseFilename", () => {
+  it("splits on the last hyphen by default", () => {
+    expect(parseFilename("SUMMER-DRESS-red-01.jpg")).toEqual({
+      sku: "SUMMER-DRESS-RED",
+      sortOrder: 1,
+      positionLabel: undefined,
+    });
+  });
+
+  it("rejects names without a hyphen or sort number", () => {
+    expect(() => parseFilename("DRESS.jpg")).toThrow("No hyphen found");
+    expect(() => parseFilename("-01.jpg")).toThrow("SKU cannot be empty");
+    expect(() => parseFilename("DRESS-x1.jpg")).toThrow('Invalid sort number: "x1"');
+  });
+
+  it("matches templates against the name without its extension", () => {
+    expect(parseFilename("01_summer-dress.jpg", templatePattern("{position}_{sku}"))).toMatchObject({
+      sku: "SUMMER-DRESS",
+      sortOrder: 1,
+    });
+  });
+
+  it("treats template literals as plain text and skips {any}", () => {
+    const pattern = templatePattern("{sku} ({position}){any}");
+    expect(parseFilename("DRESS (3) final.png", pattern)).toMatchObject({ sku: "DRESS", sortOrder: 3 });
+    expect(() => parseFilename("DRESS-3.png", pattern)).toThrow("Filename does not match pattern");
+  });
+
+  it("uses the named groups of a regex", () => {
+    const pattern = regexPattern("^IMG_(?<position>\\d+)_(?<sku>[A-Z0-9-]+)$");
+    expect(parseFilename("IMG_12_abc-1.webp", pattern)).toMatchObject({ sku: "ABC-1", sortOrder: 12 });
+  });
+});
+
+describe("position vocabulary", () => {
+  it("accepts words and counted words in place of the number", () => {
+    expect(parseFilename("DRESS-Back.jpg")).toEqual({ sku: "DRESS", sortOrder: 2, positionLabel: "back" });
+    expect(parseFilename("DRESS-detail2.jpg")).toEqual({ sku: "DRESS", sortOrder: 5, positionLabel: "detail" });
+    expect(parseFilename("DRESS-side_1.jpg")).toMatchObject({ sortOrder: 3, positionLabel: "side" });
+  });
+
+  it("rejects a counter that lands on another word's position", () => {
+    expect(() => parseFilename("DRESS-front2.jpg")).toThrow('"front2" would be position 2, which is "back"');
+    expect(() => parseFilename("DRESS-back3.jpg")).toThrow('which is "detail"');
+  });
+
+  it("rejects words outside the vocabulary", () => {
+    expect(() => parseFilename("DRESS-top.jpg")).toThrow('Invalid sort number: "top"');
+  });
+
+  it("finds the word for a numbered position", () => {
+    expect(findPositionWord(DEFAULT_FILENAME_PATTERN.positionVocabulary, 1)).toBe("front");
+    expect(findPositionWord({ main: 1, front: 1 }, 1)).toBe("main");
+    expect(findPositionWord(DEFAULT_FILENAME_PATTERN.positionVocabulary, 7)).toBeUndefined();
+    expect(findPositionWord(undefined, 1)).toBeUndefined();
+  });
+});
+
+describe("compileFilenamePattern", () => {
+  it("requires both tokens in a template, once each", () => {
+    expect(() => compileFilenamePattern(templatePattern("{sku}"))).toThrow("must contain {position}");
+    expect(() => compileFilenamePattern(templatePattern("{position}"))).toThrow("must contain {sku}");
+    expect(() => compileFilenamePattern(templatePattern("{sku}-{sku}-{position}"))).toThrow("only once");
+  });
+
+  it("requires both named groups in a regex", () => {
+    expect(validateFilenamePattern(regexPattern("^(?<sku>.+)$"))).toMatch("(?<position>");
+    expect(validateFilenamePattern(regexPattern("(?<sku>"))).not.toBeNull();
+    expect(validateFilenamePattern(regexPattern("^(?<sku>.+)_(?<position>\\d+)$"))).toBeNull();
+  });
+});
+
+describe("parsePositionVocabulary", () => {
+  it("reads word=position entries separated by commas or lines", () => {
+    expect(parsePositionVocabulary("Front=1, back: 2\nside=3")).toEqual({ front: 1, back: 2, side: 3 });
+  });
+
+  it("rejects malformed entries", () => {
+    expect(() => parsePositionVocabulary("front")).toThrow('Invalid vocabulary entry: "front"');
+  });
+});
+
+describe("parseFileEntries", () => {
+  const folderPattern: FilenamePattern = { ...DEFAULT_FILENAME_PATTERN, folderAsSku: true };
+
+  it("uses the folder name as SKU, ordered by name", () => {
+    const results = parseFileEntries(
+      [
+        { file: image("side.jpg"), path: "dress-1/side.jpg" },
+        { file: image("10.jpg"), path: "dress-1/10.jpg" },
+        { file: image("2.jpg"), path: "dress-1/2.jpg" },
+        { file: image("TOP-01.jpg"), path: "TOP-01.jpg" },
+      ],
+      folderPattern
+    );
+
+    expect(results.map(({ sku, sortOrder, originalFilename }) => ({ sku, sortOrder, originalFilename }))).toEqual([
+      { sku: "DRESS-1", sortOrder: 3, originalFilename: "dress-1/side.jpg" },
+      { sku: "DRESS-1", sortOrder: 2, originalFilename: "dress-1/10.jpg" },
+      { sku: "DRESS-1", sortOrder: 1, originalFilename: "dress-1/2.jpg" },
+      { sku: "TOP", sortOrder: 1, originalFilename: "TOP-01.jpg" },
+    ]);
+  });
+
+  it("orders folder files by numeric prefix when asked", () => {
+    const results = parseFileEntries(
+      [
+        { file: image("02_back.jpg"), path: "DRESS/02_back.jpg" },
+        { file: image("front.jpg"), path: "DRESS/front.jpg" },
+      ],
+      { ...folderPattern, folderSortBy: "prefix" }
+    );
+
+    expect(results[0]).toMatchObject({ sku: "DRESS", sortOrder: 2, isValid: true });
+    expect(results[1]).toMatchObject({ isValid: false, error: expect.stringContaining("No numeric prefix") });
+  });
+
+  it("parses folder files by their filename when the mode is off", () => {
+    const [result] = parseFileEntries([{ file: image("DRESS-01.jpg"), path: "shoot/DRESS-01.jpg" }]);
+    expect(result).toMatchObject({ sku: "DRESS", sortOrder: 1, sourcePath: "shoot/DRESS-01.jpg" });
+  });
+});
+
+describe("groupFilesBySku", () => {
+  it("groups valid files and sorts each group", () => {
+    const file = (sku: string, sortOrder: number, isValid = true) => ({
+      originalFilename: `${sku}-${sortOrder}.jpg`,
+      sku,
+      sortOrder,
+      fileData: new ArrayBuffer(0),
+      fileType: "image/jpeg",
+      fileSize: 0,
+      isValid,
+    });
+
+    const grouped = groupFilesBySku([file("A", 2), file("B", 1), file("A", 1), file("C", 1, false)]);
+    expect(Object.keys(grouped)).toEqual(["A", "B"]);
+    expect(grouped.A.map((f) => f.sortOrder)).toEqual([1, 2]);
+  });
+});
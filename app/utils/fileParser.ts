@@ -1,4 +1,4 @@
-import type { ParsedFile, ParsedFileData } from "~/types";
+import type { FilenamePattern, ParsedFile, ParsedFileData } from "~/types";
 
 const ALLOWED_TYPES = [
   "image/jpeg",
@@ -7,41 +7,166 @@ const ALLOWED_TYPES = [
   "image/webp",
   "image/jpg",
 ];
-const MAX_SIZE = 20 * 1024 * 1024; // 20MB
+// Shopify rejects larger images; bigger files are only accepted to be optimized first
+export const SHOPIFY_MAX_IMAGE_SIZE = 20 * 1024 * 1024; // 20MB
+const MAX_SIZE = 100 * 1024 * 1024; // 100MB
 
 interface ParseResult {
   sku: string;
   sortOrder: number;
+  positionLabel?: string;
+}
+
+export const DEFAULT_POSITION_VOCABULARY: Record<string, number> = {
+  front: 1,
+  back: 2,
+  side: 3,
+  detail: 4,
+};
+
+export const DEFAULT_FILENAME_PATTERN: FilenamePattern = {
+  mode: "default",
+  template: "{sku}-{position}",
+  regex: "^(?<sku>.+)-(?<position>\\d+)$",
+  folderAsSku: false,
+  folderSortBy: "order",
+  positionVocabulary: DEFAULT_POSITION_VOCABULARY,
+};
+
+// Tokens available in template mode and the regex fragment each expands to
+const TEMPLATE_TOKENS: Record<string, string> = {
+  "{sku}": "(?<sku>.+)",
+  "{position}": "(?<position>\\d+|[A-Za-z]+\\d*)",
+  "{any}": ".*?",
+};
+
+function escapeRegex(literal: string): string {
+  return literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
 /**
- * Parse a filename to extract SKU and sort order.
- * Uses the LAST hyphen as separator to protect SKUs containing hyphens.
- * Example: "SUMMER-DRESS-RED-01.jpg" -> { sku: "SUMMER-DRESS-RED", sortOrder: 1 }
+ * Convert a token template like "{sku}_{position}" into an anchored regex.
+ * Literal characters are escaped so "SKU (2)" style templates work as written.
  */
-export function parseFilename(filename: string): ParseResult {
-  // Remove extension
-  const nameWithoutExt = filename.replace(/\.[^/.]+$/, "");
+function templateToRegex(template: string): RegExp {
+  const tokenPattern = /\{(sku|position|any)\}/g;
+  let source = "";
+  let lastIndex = 0;
 
-  // Find LAST hyphen position
-  const lastHyphenIndex = nameWithoutExt.lastIndexOf("-");
+  for (const match of template.matchAll(tokenPattern)) {
+    source += escapeRegex(template.substring(lastIndex, match.index));
+    source += TEMPLATE_TOKENS[match[0]];
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  source += escapeRegex(template.substring(lastIndex));
 
-  if (lastHyphenIndex === -1) {
-    throw new Error("No hyphen found - cannot determine sort order");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Build the regex for a template or regex pattern.
+ * Throws if the pattern is malformed or lacks the required tokens/groups.
+ */
+export function compileFilenamePattern(pattern: FilenamePattern): RegExp {
+  if (pattern.mode === "template") {
+    const template = pattern.template.trim();
+    if (!template.includes("{sku}")) {
+      throw new Error("Template must contain {sku}");
+    }
+    if (!template.includes("{position}")) {
+      throw new Error("Template must contain {position}");
+    }
+    if (template.split("{sku}").length > 2 || template.split("{position}").length > 2) {
+      throw new Error("Template can contain {sku} and {position} only once");
+    }
+    return templateToRegex(template);
   }
 
-  if (lastHyphenIndex === 0) {
-    throw new Error("SKU cannot be empty");
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern.regex, "i");
+  } catch (error) {
+    throw new Error(error instanceof Error ? error.message : "Invalid regular expression");
   }
 
-  const sku = nameWithoutExt.substring(0, lastHyphenIndex).trim();
-  const sortStr = nameWithoutExt.substring(lastHyphenIndex + 1).trim();
+  if (!pattern.regex.includes("(?<sku>")) {
+    throw new Error("Regex must contain a named group (?<sku>...)");
+  }
+  if (!pattern.regex.includes("(?<position>")) {
+    throw new Error("Regex must contain a named group (?<position>...)");
+  }
 
+  return regex;
+}
+
+/**
+ * Validate a filename pattern, returning an error message or null if usable
+ */
+export function validateFilenamePattern(pattern: FilenamePattern): string | null {
+  if (pattern.mode === "default") return null;
+
+  try {
+    compileFilenamePattern(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid pattern";
+  }
+}
+
+/**
+ * The vocabulary word for a position, if any. The first word listed wins when
+ * several share a position.
+ */
+export function findPositionWord(
+  vocabulary: Record<string, number> | undefined,
+  position: number
+): string | undefined {
+  return Object.entries(vocabulary ?? {}).find(([, wordPosition]) => wordPosition === position)?.[0];
+}
+
+/**
+ * Resolve a sort string to a position: numbers as-is, or a vocabulary word
+ * with an optional counter. "detail2" is the position after "detail", which
+ * must not be another word's position.
+ */
+function resolvePosition(
+  sortStr: string,
+  vocabulary: Record<string, number>
+): { sortOrder: number; positionLabel?: string } {
+  if (/^-?\d/.test(sortStr)) {
+    return { sortOrder: parseInt(sortStr, 10) };
+  }
+
+  const wordMatch = /^([a-z]+)[\s_]*(\d*)$/i.exec(sortStr);
+  const word = wordMatch?.[1].toLowerCase();
+  const basePosition = word ? vocabulary[word] : undefined;
+
+  if (!wordMatch || !word || basePosition === undefined) {
+    return { sortOrder: NaN };
+  }
+
+  const counter = wordMatch[2] ? parseInt(wordMatch[2], 10) : 1;
+  const sortOrder = basePosition + Math.max(counter, 1) - 1;
+  const taken = findPositionWord(vocabulary, sortOrder);
+  if (taken && taken !== word) {
+    throw new Error(`"${sortStr}" would be position ${sortOrder}, which is "${taken}"`);
+  }
+  return { sortOrder, positionLabel: word };
+}
+
+/**
+ * Convert the raw SKU and sort strings into a ParseResult
+ */
+function toParseResult(
+  sku: string,
+  sortStr: string,
+  vocabulary: Record<string, number> = {}
+): ParseResult {
   if (!sku) {
     throw new Error("SKU cannot be empty");
   }
 
-  const sortOrder = parseInt(sortStr, 10);
+  const { sortOrder, positionLabel } = resolvePosition(sortStr, vocabulary);
 
   if (isNaN(sortOrder)) {
     throw new Error(`Invalid sort number: "${sortStr}"`);
@@ -51,7 +176,84 @@ export function parseFilename(filename: string): ParseResult {
     throw new Error("Sort number cannot be negative");
   }
 
-  return { sku: sku.toUpperCase(), sortOrder };
+  return { sku: sku.toUpperCase(), sortOrder, positionLabel };
+}
+
+/**
+ * Parse "front=1, back=2" style text into a position vocabulary.
+ * Throws on malformed entries.
+ */
+export function parsePositionVocabulary(text: string): Record<string, number> {
+  const vocabulary: Record<string, number> = {};
+
+  for (const entry of text.split(/[,\n]/)) {
+    if (!entry.trim()) continue;
+
+    const match = /^\s*([a-z]+)\s*[=:]\s*(\d+)\s*$/i.exec(entry);
+    if (!match) {
+      throw new Error(`Invalid vocabulary entry: "${entry.trim()}" (use word=position)`);
+    }
+    vocabulary[match[1].toLowerCase()] = parseInt(match[2], 10);
+  }
+
+  return vocabulary;
+}
+
+/**
+ * Format a position vocabulary as "front=1, back=2" text
+ */
+export function formatPositionVocabulary(vocabulary: Record<string, number>): string {
+  return Object.entries(vocabulary)
+    .sort(([, a], [, b]) => a - b)
+    .map(([word, position]) => `${word}=${position}`)
+    .join(", ");
+}
+
+/**
+ * Parse a filename to extract SKU and sort order.
+ * The default pattern uses the LAST hyphen as separator to protect SKUs containing hyphens.
+ * Example: "SUMMER-DRESS-RED-01.jpg" -> { sku: "SUMMER-DRESS-RED", sortOrder: 1 }
+ * Words from the position vocabulary are accepted in place of the number.
+ * Example: "SUMMER-DRESS-RED-back.jpg" -> { sku: "SUMMER-DRESS-RED", sortOrder: 2, positionLabel: "back" }
+ * Template and regex patterns match against the filename without its extension.
+ * Example: "{position}_{sku}" on "01_SUMMER-DRESS.jpg" -> { sku: "SUMMER-DRESS", sortOrder: 1 }
+ */
+export function parseFilename(
+  filename: string,
+  pattern: FilenamePattern = DEFAULT_FILENAME_PATTERN
+): ParseResult {
+  // Remove extension
+  const nameWithoutExt = filename.replace(/\.[^/.]+$/, "");
+
+  if (pattern.mode !== "default") {
+    const match = compileFilenamePattern(pattern).exec(nameWithoutExt);
+    if (!match?.groups) {
+      throw new Error(
+        `Filename does not match pattern "${pattern.mode === "template" ? pattern.template : pattern.regex}"`
+      );
+    }
+    return toParseResult(
+      (match.groups.sku ?? "").trim(),
+      (match.groups.position ?? "").trim(),
+      pattern.positionVocabulary
+    );
+  }
+
+  // Find LAST hyphen position
+  const lastHyphenIndex = nameWithoutExt.lastIndexOf("-");
+
+  if (lastHyphenIndex === -1) {
+    throw new Error("No hyphen found - cannot determine sort order");
+  }
+
+  if (lastHyphenIndex === 0) {
+    throw new Error("SKU cannot be empty");
+  }
+
+  const sku = nameWithoutExt.substring(0, lastHyphenIndex).trim();
+  const sortStr = nameWithoutExt.substring(lastHyphenIndex + 1).trim();
+
+  return toParseResult(sku, sortStr, pattern.positionVocabulary);
 }
 
 /**
@@ -68,7 +270,7 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
   if (file.size > MAX_SIZE) {
     return {
       valid: false,
-      error: `File exceeds 20MB limit (${(file.size / 1024 / 1024).toFixed(2)}MB)`,
+      error: `File exceeds 100MB limit (${(file.size / 1024 / 1024).toFixed(2)}MB)`,
     };
   }
 
@@ -85,7 +287,10 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
 /**
  * Parse and validate a single file
  */
-export function parseAndValidateFile(file: File): ParsedFile {
+export function parseAndValidateFile(
+  file: File,
+  pattern: FilenamePattern = DEFAULT_FILENAME_PATTERN
+): ParsedFile {
   // First validate file type and size
   const validation = validateFile(file);
   if (!validation.valid) {
@@ -101,11 +306,12 @@ export function parseAndValidateFile(file: File): ParsedFile {
 
   // Then parse filename
   try {
-    const { sku, sortOrder } = parseFilename(file.name);
+    const { sku, sortOrder, positionLabel } = parseFilename(file.name, pattern);
     return {
       originalFilename: file.name,
       sku,
       sortOrder,
+      positionLabel,
       file,
       isValid: true,
     };
@@ -121,11 +327,97 @@ export function parseAndValidateFile(file: File): ParsedFile {
   }
 }
 
+/**
+ * Split a ZIP entry path into its containing folder name and filename
+ */
+export function splitEntryPath(path: string): { folder: string; filename: string } {
+  const segments = path.split("/").filter(Boolean);
+  const filename = segments.pop() || "";
+  return { folder: segments.pop() || "", filename };
+}
+
+/**
+ * Parse sort order from a numeric filename prefix, e.g., "02_back.jpg" -> 2
+ */
+export function parseNumericPrefix(filename: string): number {
+  const match = /^(\d+)/.exec(filename);
+  if (!match) {
+    throw new Error("No numeric prefix found - cannot determine sort order");
+  }
+  return parseInt(match[1], 10);
+}
+
+/**
+ * Parse files together with their path inside a ZIP archive.
+ * With folderAsSku enabled, files inside a folder take the folder name as SKU
+ * and are ordered by name or numeric prefix; everything else uses the filename pattern.
+ * Results keep the input order.
+ */
+export function parseFileEntries(
+  entries: Array<{ file: File; path: string }>,
+  pattern: FilenamePattern = DEFAULT_FILENAME_PATTERN
+): ParsedFile[] {
+  const results: ParsedFile[] = entries.map(({ file, path }) => ({
+    ...parseAndValidateFile(file, pattern),
+    sourcePath: path !== file.name ? path : undefined,
+  }));
+
+  if (!pattern.folderAsSku) {
+    return results;
+  }
+
+  // Group entries that live inside a folder by their full folder path
+  const folders = new Map<string, number[]>();
+  entries.forEach(({ path }, index) => {
+    const folderPath = path.split("/").slice(0, -1).join("/");
+    if (!folderPath) return;
+    folders.set(folderPath, [...(folders.get(folderPath) || []), index]);
+  });
+
+  for (const indexes of folders.values()) {
+    const ordered = [...indexes].sort((a, b) =>
+      entries[a].path.localeCompare(entries[b].path, undefined, { numeric: true })
+    );
+
+    ordered.forEach((index, position) => {
+      const { file, path } = entries[index];
+      const { folder, filename } = splitEntryPath(path);
+      const validation = validateFile(file);
+      // Folder files often share names like "front.jpg", so report them by path
+      const base = { originalFilename: path, file, sourcePath: path };
+
+      if (!validation.valid) {
+        results[index] = { ...base, sku: "", sortOrder: 0, isValid: false, error: validation.error };
+        return;
+      }
+
+      try {
+        const sortOrder =
+          pattern.folderSortBy === "prefix" ? parseNumericPrefix(filename) : position + 1;
+        results[index] = { ...base, sku: folder.trim().toUpperCase(), sortOrder, isValid: true };
+      } catch (error) {
+        results[index] = {
+          ...base,
+          sku: "",
+          sortOrder: 0,
+          isValid: false,
+          error: error instanceof Error ? error.message : "Unknown parsing error",
+        };
+      }
+    });
+  }
+
+  return results;
+}
+
 /**
  * Parse multiple files and return parsed results
  */
-export function parseFiles(files: File[]): ParsedFile[] {
-  return files.map(parseAndValidateFile);
+export function parseFiles(
+  files: File[],
+  pattern: FilenamePattern = DEFAULT_FILENAME_PATTERN
+): ParsedFile[] {
+  return files.map((file) => parseAndValidateFile(file, pattern));
 }
 
 /**
@@ -0,0 +1,31 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// Uploaded files are kept on the persistent volume until their job finishes
+export const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(process.cwd(), "uploads");
+
+/**
+ * Directory holding the files of a single upload job
+ */
+export function getJobDirectory(jobId: string): string {
+  return path.join(UPLOAD_DIR, jobId);
+}
+
+/**
+ * Read a stored file back into memory for upload
+ */
+export async function readStoredFile(filePath: string): Promise<ArrayBuffer> {
+  const buffer = await fs.readFile(filePath);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Remove all stored files of a job
+ */
+export async function removeJobFiles(jobId: string): Promise<void> {
+  try {
+    await fs.rm(getJobDirectory(jobId), { recursive: true, force: true });
+  } catch (error) {
+    console.error(`Failed to remove files for job ${jobId}:`, error);
+  }
+}
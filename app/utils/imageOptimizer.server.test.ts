@@ -0,0 +1,166 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import type { ImageOptimizationSettings, ParsedFileData } from "~/types";
+import { optimizeImage } from "./imageOptimizer.server";
+
+const RED = { r: 255, g: 0, b: 0 };
+
+function settings(overrides: Partial<ImageOptimizationSettings>): ImageOptimizationSettings {
+  return {
+    enabled: true,
+    maxDimension: null,
+    quality: 82,
+    convertToWebp: false,
+    aspectRatio: "original",
+    aspectMode: "pad",
+    background: "#FFFFFF",
+    autoTrim: false,
+    ...overrides,
+  };
+}
+
+function parsedFile(name: string, data: Buffer, fileType: string): ParsedFileData {
+  const fileData = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  return { originalFilename: name, sku: "DRESS", sortOrder: 1, fileData, fileType, fileSize: data.byteLength, isValid: true };
+}
+
+// A single-colour image
+async function solid(width: number, height: number, format: "png" | "jpeg" = "png") {
+  const data = await sharp({ create: { width, height, channels: 3, background: RED } })
+    .toFormat(format)
+    .toBuffer();
+  return parsedFile(`DRESS_1.${format === "jpeg" ? "jpg" : format}`, data, `image/${format}`);
+}
+
+// A PNG with a distinct colour at nearly every pixel, like a photo
+async function gradient(width: number, height: number) {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels.set([(x * 4) % 256, (y * 4) % 256, ((x + y) * 2) % 256], (y * width + x) * 3);
+    }
+  }
+  const data = await sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+  return parsedFile("DRESS_1.png", data, "image/png");
+}
+
+// A red product in the middle of a white border
+async function bordered() {
+  const product = await sharp({ create: { width: 50, height: 40, channels: 3, background: RED } }).png().toBuffer();
+  const data = await sharp({ create: { width: 100, height: 100, channels: 3, background: "#FFFFFF" } })
+    .composite([{ input: product, left: 25, top: 30 }])
+    .png()
+    .toBuffer();
+  return parsedFile("DRESS_1.png", data, "image/png");
+}
+
+const metadata = (file: ParsedFileData) => sharp(Buffer.from(file.fileData)).metadata();
+
+async function pixel(file: ParsedFileData, x: number, y: number) {
+  const { data, info } = await sharp(Buffer.from(file.fileData)).raw().toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return Array.from(data.subarray(offset, offset + 3));
+}
+
+async function distinctColours(file: ParsedFileData) {
+  const { data, info } = await sharp(Buffer.from(file.fileData)).raw().toBuffer({ resolveWithObject: true });
+  const colours = new Set<number>();
+  for (let offset = 0; offset < data.length; offset += info.channels) {
+    colours.add((data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2]);
+  }
+  return colours.size;
+}
+
+describe("optimizeImage", () => {
+  it("scales the longest edge down to the limit, keeping the proportions", async () => {
+    const { file } = await optimizeImage(await solid(400, 200, "jpeg"), settings({ maxDimension: 100 }));
+
+    expect(await metadata(file)).toMatchObject({ width: 100, height: 50, format: "jpeg" });
+    expect(file.fileSize).toBe(file.fileData.byteLength);
+  });
+
+  it("leaves images within the limit at their size", async () => {
+    const { file } = await optimizeImage(await solid(80, 40, "jpeg"), settings({ maxDimension: 100 }));
+
+    expect(await metadata(file)).toMatchObject({ width: 80, height: 40 });
+  });
+
+  it("converts to WebP and renames the file", async () => {
+    const { file } = await optimizeImage(await solid(40, 40), settings({ convertToWebp: true }));
+
+    expect(file).toMatchObject({ originalFilename: "DRESS_1.webp", fileType: "image/webp" });
+    expect((await metadata(file)).format).toBe("webp");
+  });
+
+  it("uploads formats it can't re-encode unchanged", async () => {
+    const original = { ...(await solid(40, 40)), fileType: "image/gif" };
+
+    const { file } = await optimizeImage(original, settings({ maxDimension: 10, convertToWebp: true }));
+
+    expect(file).toBe(original);
+  });
+
+  it("keeps resized PNGs lossless instead of reducing them to a palette", async () => {
+    const { file } = await optimizeImage(await gradient(64, 64), settings({ maxDimension: 32, quality: 50 }));
+
+    expect(await metadata(file)).toMatchObject({ width: 32, format: "png" });
+    // A palette holds at most 256 colours
+    expect(await distinctColours(file)).toBeGreaterThan(256);
+  });
+});
+
+describe("aspect ratio", () => {
+  it("pads to the ratio with the background colour", async () => {
+    const { file } = await optimizeImage(await solid(200, 100), settings({ aspectRatio: "1:1", background: "#0000FF" }));
+
+    expect(await metadata(file)).toMatchObject({ width: 200, height: 200 });
+    expect(await pixel(file, 0, 0)).toEqual([0, 0, 255]);
+    expect(await pixel(file, 100, 100)).toEqual([255, 0, 0]);
+  });
+
+  it("pads narrower sides too", async () => {
+    const { file } = await optimizeImage(await solid(100, 100), settings({ aspectRatio: "4:5" }));
+
+    expect(await metadata(file)).toMatchObject({ width: 100, height: 125 });
+    expect(await pixel(file, 0, 0)).toEqual([255, 255, 255]);
+  });
+
+  it("crops to the ratio, keeping the middle", async () => {
+    const { file } = await optimizeImage(
+      await solid(200, 100),
+      settings({ aspectRatio: "1:1", aspectMode: "crop", background: "#0000FF" })
+    );
+
+    expect(await metadata(file)).toMatchObject({ width: 100, height: 100 });
+    expect(await pixel(file, 0, 0)).toEqual([255, 0, 0]);
+  });
+
+  it("scales the reshaped image down to the longest edge limit", async () => {
+    const { file } = await optimizeImage(await solid(200, 100), settings({ aspectRatio: "1:1", maxDimension: 50 }));
+
+    expect(await metadata(file)).toMatchObject({ width: 50, height: 50 });
+  });
+
+  it("rejects a background that isn't a hex colour", async () => {
+    await expect(
+      optimizeImage(await solid(200, 100), settings({ aspectRatio: "1:1", background: "white" }))
+    ).rejects.toThrow('Background colour "white" is not a hex colour');
+  });
+});
+
+describe("autoTrim", () => {
+  it("removes uniform borders", async () => {
+    const { file } = await optimizeImage(await bordered(), settings({ autoTrim: true }));
+
+    expect(await metadata(file)).toMatchObject({ width: 50, height: 40 });
+    expect(await pixel(file, 0, 0)).toEqual([255, 0, 0]);
+  });
+
+  it("fits the canvas to what is left after trimming", async () => {
+    const { file } = await optimizeImage(await bordered(), settings({ autoTrim: true, aspectRatio: "1:1" }));
+
+    expect(await metadata(file)).toMatchObject({ width: 50, height: 50 });
+    expect(await pixel(file, 25, 25)).toEqual([255, 0, 0]);
+    expect(await pixel(file, 25, 0)).toEqual([255, 255, 255]);
+  });
+});
@@ -0,0 +1,156 @@
+import sharp from "sharp";
+import type { ImageOptimizationSettings, ParsedFileData } from "~/types";
+
+// Large studio exports decode to hundreds of MB; don't keep them in sharp's cache
+sharp.cache(false);
+
+// Formats that are re-encoded; GIFs may be animated and are uploaded unchanged
+const OPTIMIZABLE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp"];
+
+// How far from the corner pixel's colour a border may drift and still be trimmed
+const TRIM_THRESHOLD = 10;
+
+const HEX_COLOUR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Longest edge of the thumbnails shown for dry runs
+const PREVIEW_SIZE = 160;
+
+export interface OptimizedFile {
+  file: ParsedFileData; // Copy of the file with the optimized contents, type, size and name
+  originalSize: number;
+}
+
+/**
+ * Output size for an image, or null when it can keep its dimensions.
+ * Pad grows the canvas to the target ratio, crop shrinks it; either is then
+ * scaled down to the longest edge limit.
+ */
+function targetSize(
+  width: number,
+  height: number,
+  settings: ImageOptimizationSettings
+): { width: number; height: number; fit: "inside" | "contain" | "cover" } | null {
+  let targetWidth = width;
+  let targetHeight = height;
+  let fit: "inside" | "contain" | "cover" = "inside";
+
+  if (settings.aspectRatio && settings.aspectRatio !== "original") {
+    const [ratioWidth, ratioHeight] = settings.aspectRatio.split(":").map(Number);
+    const ratio = ratioWidth / ratioHeight;
+    const wider = width / height > ratio;
+    const pad = settings.aspectMode !== "crop";
+
+    if (wider === pad) {
+      targetHeight = Math.round(width / ratio);
+    } else {
+      targetWidth = Math.round(height * ratio);
+    }
+    fit = pad ? "contain" : "cover";
+  }
+
+  const longestEdge = Math.max(targetWidth, targetHeight);
+  const scale = settings.maxDimension && longestEdge > settings.maxDimension
+    ? settings.maxDimension / longestEdge
+    : 1;
+
+  if (scale === 1 && targetWidth === width && targetHeight === height) return null;
+
+  return {
+    width: Math.max(1, Math.round(targetWidth * scale)),
+    height: Math.max(1, Math.round(targetHeight * scale)),
+    fit,
+  };
+}
+
+/**
+ * Trim, reshape, resize and recompress an image, optionally converting it to WebP.
+ * The original is kept when re-encoding alone would not make it smaller.
+ */
+export async function optimizeImage(
+  file: ParsedFileData,
+  settings: ImageOptimizationSettings
+): Promise<OptimizedFile> {
+  const originalSize = file.fileData.byteLength;
+  if (!OPTIMIZABLE_TYPES.includes(file.fileType)) {
+    return { file, originalSize };
+  }
+
+  let image = sharp(Buffer.from(file.fileData)).rotate();
+  const metadata = await image.metadata();
+  // EXIF orientations 5-8 are rotated by 90 degrees
+  const swap = (metadata.orientation ?? 1) >= 5;
+  let width = (swap ? metadata.height : metadata.width) ?? 0;
+  let height = (swap ? metadata.width : metadata.height) ?? 0;
+  let trimmed = false;
+
+  if (settings.autoTrim) {
+    // Trim in a pass of its own, kept uncompressed, so the canvas is fitted to what is left
+    const { data, info } = await image
+      .trim({ threshold: TRIM_THRESHOLD })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    image = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+    trimmed = info.width !== width || info.height !== height;
+    ({ width, height } = info);
+  }
+
+  const target = targetSize(width, height, settings);
+  if (target?.fit === "contain" && !HEX_COLOUR.test(settings.background)) {
+    throw new Error(`Background colour "${settings.background}" is not a hex colour`);
+  }
+  if (target) {
+    image.resize({
+      width: target.width,
+      height: target.height,
+      fit: target.fit,
+      background: settings.background,
+    });
+  }
+
+  const converted = settings.convertToWebp && file.fileType !== "image/webp";
+  const fileType = converted ? "image/webp" : file.fileType === "image/jpg" ? "image/jpeg" : file.fileType;
+
+  switch (fileType) {
+    case "image/webp":
+      image.webp({ quality: settings.quality });
+      break;
+    case "image/png":
+      // Stays lossless: sharp reduces PNGs to a palette when given a quality, which bands photos
+      image.png({ compressionLevel: 9 });
+      break;
+    default:
+      image.jpeg({ quality: settings.quality, mozjpeg: true });
+  }
+
+  const output = await image.toBuffer();
+  if (!target && !trimmed && !converted && output.byteLength >= originalSize) {
+    return { file, originalSize };
+  }
+
+  // Buffers from sharp may share a larger pool, so copy out just the image bytes
+  const fileData = output.buffer.slice(output.byteOffset, output.byteOffset + output.byteLength) as ArrayBuffer;
+
+  return {
+    file: {
+      ...file,
+      originalFilename: converted
+        ? file.originalFilename.replace(/\.[^./]+$/, "") + ".webp"
+        : file.originalFilename,
+      fileData,
+      fileType,
+      fileSize: output.byteLength,
+    },
+    originalSize,
+  };
+}
+
+/**
+ * Small WebP thumbnail of an image as a data URL, to preview processing in dry runs
+ */
+export async function createPreview(file: ParsedFileData): Promise<string> {
+  const thumbnail = await sharp(Buffer.from(file.fileData))
+    .resize({ width: PREVIEW_SIZE, height: PREVIEW_SIZE, fit: "inside" })
+    .webp({ quality: 60 })
+    .toBuffer();
+  return `data:image/webp;base64,${thumbnail.toString("base64")}`;
+}
@@ -0,0 +1,240 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ParsedFileData, ProductData, UploadSettings } from "~/types";
+import { DEFAULT_FILENAME_PATTERN } from "./fileParser";
+
+// Shared with the mocks, which vi.mock hoists above the imports
+const { shopify, mediaHashes } = vi.hoisted(() => ({
+  shopify: {
+    gallery: [] as string[], // The product's media IDs in gallery order
+    failing: new Set<string>(), // Media that fails processing
+    calls: [] as Array<[string, unknown]>,
+  },
+  mediaHashes: new Map<string, { mediaId: string; productId: string; hash: string }>(),
+}));
+
+// In-memory stand-in for the hashes recorded of uploaded media
+vi.mock("~/db.server", () => ({
+  default: {
+    mediaHash: {
+      findMany: async ({ where }: { where: { mediaId: { in: string[] } } }) =>
+        Array.from(mediaHashes.values()).filter((row) => where.mediaId.in.includes(row.mediaId)),
+      upsert: async ({ create }: { create: { mediaId: string; productId: string; hash: string } }) => {
+        mediaHashes.set(create.mediaId, create);
+      },
+    },
+    $transaction: (operations: Array<Promise<unknown>>) => Promise.all(operations),
+  },
+}));
+
+// A product gallery in memory. New media is named after the last part of its staged URL.
+vi.mock("./shopifyMedia.server", () => ({
+  createProductMedia: async (_admin: unknown, _productId: string, items: Array<{ resourceUrl: string }>) => {
+    const ids = items.map((item) => item.resourceUrl.split("/").pop() as string);
+    shopify.calls.push(["create", ids]);
+    shopify.gallery.push(...ids);
+    return ids.map((mediaId) => ({ mediaId }));
+  },
+  waitForMediaProcessing: async (_admin: unknown, ids: string[]) =>
+    new Map(
+      ids.map((id) => [id, shopify.failing.has(id) ? { status: "FAILED", error: "Corrupt image" } : { status: "READY" }])
+    ),
+  deleteProductMedia: async (_admin: unknown, _productId: string, ids: string[]) => {
+    shopify.calls.push(["delete", ids]);
+    shopify.gallery = shopify.gallery.filter((id) => !ids.includes(id));
+  },
+  moveProductMedia: async (_admin: unknown, _productId: string, moves: Array<{ id: string; newPosition: string }>) => {
+    shopify.calls.push(["move", moves]);
+    for (const { id, newPosition } of moves) {
+      shopify.gallery = shopify.gallery.filter((mediaId) => mediaId !== id);
+      shopify.gallery.splice(Number(newPosition), 0, id);
+    }
+  },
+  // Media without a recorded hash has no original to download
+  getMediaOriginalSources: async () => new Map(),
+}));
+
+const { processUploadQueue } = await import("./imageQueue.server");
+
+const admin = { graphql: async () => Response.json({}) };
+
+// A file the browser already uploaded, so it goes straight to media creation.
+// Files with content are hashed and checked for duplicates.
+function file(name: string, sortOrder: number, content = ""): ParsedFileData {
+  const fileData = new TextEncoder().encode(content).buffer as ArrayBuffer;
+  return {
+    originalFilename: `${name}.jpg`,
+    sku: "DRESS",
+    sortOrder,
+    fileData,
+    fileType: "image/jpeg",
+    fileSize: fileData.byteLength || 1024,
+    resourceUrl: `https://staged.example.com/${name}`,
+    isValid: true,
+  };
+}
+
+function settings(overrides: Partial<UploadSettings>): UploadSettings {
+  return {
+    dryRun: false,
+    uploadStrategy: "append",
+    replaceFailurePolicy: "keep-old",
+    positionMode: "insert",
+    seoOptimization: false,
+    altTextByPosition: {},
+    filenamePattern: DEFAULT_FILENAME_PATTERN,
+    assignVariantImage: false,
+    variantImagePosition: null,
+    matchKey: "sku",
+    matchMetafield: { namespace: "", key: "" },
+    useCatalogIndex: false,
+    imageOptimization: {
+      enabled: false,
+      maxDimension: null,
+      quality: 82,
+      convertToWebp: false,
+      aspectRatio: "original",
+      aspectMode: "pad",
+      background: "#FFFFFF",
+      autoTrim: false,
+    },
+    ...overrides,
+  };
+}
+
+// Upload files for a product whose gallery holds `existing`
+function upload(files: ParsedFileData[], existing: string[], overrides: Partial<UploadSettings>) {
+  shopify.gallery = [...existing];
+  const product: ProductData = { id: "gid://shopify/Product/1", title: "Dress", mediaIds: [...existing] };
+  return processUploadQueue({ DRESS: files }, new Map([["DRESS", product]]), settings(overrides), admin);
+}
+
+beforeEach(() => {
+  shopify.gallery = [];
+  shopify.failing.clear();
+  shopify.calls = [];
+  mediaHashes.clear();
+});
+
+describe("prepend", () => {
+  it("moves the successful uploads to the front, leaving failed media behind them", async () => {
+    shopify.failing.add("new-1");
+
+    const results = await upload([file("new-1", 1), file("new-2", 2)], ["old-1", "old-2"], {
+      uploadStrategy: "prepend",
+    });
+
+    expect(results.map((result) => result.status)).toEqual(["error", "success"]);
+    expect(shopify.gallery).toEqual(["new-2", "old-1", "old-2", "new-1"]);
+  });
+});
+
+describe("replace", () => {
+  it("deletes the old images once every new image is ready", async () => {
+    const results = await upload([file("new-1", 1), file("new-2", 2)], ["old-1", "old-2"], {
+      uploadStrategy: "replace",
+    });
+
+    expect(results.map((result) => result.status)).toEqual(["success", "success"]);
+    expect(shopify.gallery).toEqual(["new-1", "new-2"]);
+  });
+
+  it("rolls back every new image, failed ones included, with rollback-new", async () => {
+    shopify.failing.add("new-1");
+
+    const results = await upload([file("new-1", 1), file("new-2", 2)], ["old-1", "old-2"], {
+      uploadStrategy: "replace",
+      replaceFailurePolicy: "rollback-new",
+    });
+
+    expect(shopify.gallery).toEqual(["old-1", "old-2"]);
+    expect(results.map(({ status, errorDetails }) => ({ status, errorDetails }))).toEqual([
+      { status: "error", errorDetails: "Media processing failed: Corrupt image" },
+      {
+        status: "error",
+        errorDetails: "Rolled back because 1 of 2 new images for this product did not succeed; existing images kept",
+      },
+    ]);
+  });
+
+  it("keeps the old and working new images but removes failed media with keep-old", async () => {
+    shopify.failing.add("new-1");
+
+    const results = await upload([file("new-1", 1), file("new-2", 2)], ["old-1", "old-2"], {
+      uploadStrategy: "replace",
+      replaceFailurePolicy: "keep-old",
+    });
+
+    expect(shopify.gallery).toEqual(["old-1", "old-2", "new-2"]);
+    expect(results.map(({ status, errorDetails }) => ({ status, errorDetails }))).toEqual([
+      { status: "error", errorDetails: "Media processing failed: Corrupt image" },
+      {
+        status: "success",
+        errorDetails: "Existing images kept because 1 of 2 new images for this product did not succeed",
+      },
+    ]);
+  });
+});
+
+describe("position", () => {
+  it("inserts at the sort number and appends files numbered beyond the gallery", async () => {
+    await upload([file("new-1", 1), file("new-9", 9)], ["old-1", "old-2"], { uploadStrategy: "position" });
+
+    expect(shopify.gallery).toEqual(["new-1", "old-1", "old-2", "new-9"]);
+  });
+
+  it("keeps files that share a sort number in upload order", async () => {
+    await upload([file("new-a", 2), file("new-b", 2), file("new-c", 4)], ["old-1", "old-2", "old-3"], {
+      uploadStrategy: "position",
+    });
+
+    expect(shopify.gallery).toEqual(["old-1", "new-a", "new-b", "new-c", "old-2", "old-3"]);
+  });
+
+  it("deletes only the images in the replaced slots", async () => {
+    const results = await upload([file("new-2", 2), file("new-9", 9)], ["old-1", "old-2", "old-3"], {
+      uploadStrategy: "position",
+      positionMode: "replace-slot",
+    });
+
+    expect(shopify.calls.filter(([operation]) => operation === "delete")).toEqual([["delete", ["old-2"]]]);
+    expect(shopify.gallery).toEqual(["old-1", "new-2", "old-3", "new-9"]);
+    expect(results.map((result) => result.status)).toEqual(["success", "success"]);
+  });
+});
+
+describe("duplicates", () => {
+  it("skips images already uploaded when an append is run again", async () => {
+    const files = () => [file("new-1", 1, "front"), file("new-2", 2, "back")];
+    await upload(files(), ["old-1"], { uploadStrategy: "append" });
+
+    const results = await upload(files(), shopify.gallery, { uploadStrategy: "append" });
+
+    expect(results.map(({ status, errorDetails }) => ({ status, errorDetails }))).toEqual([
+      { status: "duplicate", errorDetails: "Identical image is already on the product" },
+      { status: "duplicate", errorDetails: "Identical image is already on the product" },
+    ]);
+    expect(shopify.calls.filter(([operation]) => operation === "create")).toEqual([["create", ["new-1", "new-2"]]]);
+    expect(shopify.gallery).toEqual(["old-1", "new-1", "new-2"]);
+  });
+
+  it("uploads an image once when the upload repeats it", async () => {
+    const results = await upload([file("new-1", 1, "front"), file("copy", 2, "front")], [], {
+      uploadStrategy: "append",
+    });
+
+    expect(results.map(({ status, errorDetails }) => ({ status, errorDetails }))).toEqual([
+      { status: "success", errorDetails: undefined },
+      { status: "duplicate", errorDetails: "Same image as new-1.jpg in this upload" },
+    ]);
+    expect(shopify.gallery).toEqual(["new-1"]);
+  });
+
+  it("uploads identical images again on replace, since the old copies are deleted", async () => {
+    await upload([file("new-1", 1, "front")], [], { uploadStrategy: "append" });
+
+    const results = await upload([file("again", 1, "front")], shopify.gallery, { uploadStrategy: "replace" });
+
+    expect(results.map((result) => result.status)).toEqual(["success"]);
+    expect(shopify.gallery).toEqual(["again"]);
+  });
+});
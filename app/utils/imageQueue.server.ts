@@ -4,182 +4,642 @@ import type {
   ProcessingResult,
   UploadSettings,
   ProductData,
-  StagedUploadTarget,
+  UploadEventType,
 } from "~/types";
 import {
-  createStagedUpload,
+  createStagedUploads,
   uploadToStagedTarget,
   createProductMedia,
   deleteProductMedia,
-  reorderProductMedia,
+  moveProductMedia,
+  waitForMediaProcessing,
+  setVariantMedia,
+  type MediaProcessingState,
 } from "./shopifyMedia.server";
+import { getMatchKeyLabel } from "./matchKeys";
+import { SHOPIFY_MAX_IMAGE_SIZE, findPositionWord } from "./fileParser";
+import { createPreview, optimizeImage } from "./imageOptimizer.server";
+import { getProductMediaHashes, hashFileData, recordMediaHashes } from "./mediaHashes.server";
 
-// Maximum concurrent uploads - balanced for speed while respecting API limits
+// Concurrent file uploads to staged targets per product; how many products run at once
+// is up to the upload scheduler, and API cost pacing is handled by createAdminClient
 const MAX_CONCURRENT = 5;
-const limit = pLimit(MAX_CONCURRENT);
 
 interface AdminContext {
   graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
 }
 
-interface UploadTask {
-  file: ParsedFileData;
-  product: ProductData;
-  settings: UploadSettings;
-  admin: AdminContext;
+export interface QueueHooks {
+  // Called once per file as soon as its final result is known
+  onResult?: (file: ParsedFileData, result: ProcessingResult) => void | Promise<void>;
+  // Called as a file moves through staging, upload and media creation
+  onEvent?: (file: ParsedFileData, type: UploadEventType, message?: string) => void | Promise<void>;
+  // Called with a thumbnail of each file optimized in a dry run, as a data URL
+  onPreview?: (file: ParsedFileData, previewUrl: string) => void | Promise<void>;
 }
 
 /**
- * Process a single upload task
+ * Result fields shared by every outcome for a file matched to a product
  */
-async function processOneUpload(task: UploadTask): Promise<ProcessingResult> {
-  const { file, product, settings, admin } = task;
+function productResultFields(file: ParsedFileData, product: ProductData) {
+  return {
+    filename: file.originalFilename,
+    detectedSku: file.sku,
+    productFound: true,
+    productTitle: product.title,
+    productId: product.id,
+    variantTitle: product.variantTitle,
+    variantId: product.variantId,
+  };
+}
+
+/**
+ * Link one of the uploaded images to the matched variant.
+ * Uses the image at the configured sort position, or the first ready upload.
+ * An image that isn't ready in time keeps its upload but reports the variant as unset.
+ */
+async function assignVariantImage(
+  results: ProcessingResult[],
+  files: ParsedFileData[],
+  product: ProductData,
+  settings: UploadSettings,
+  admin: AdminContext
+): Promise<void> {
+  if (!product.variantId) return;
+
+  const successful = results.filter((r) => r.status === "success" && r.mediaId);
+  const target =
+    settings.variantImagePosition !== null
+      ? successful.find(
+          (r) =>
+            files.find((f) => f.originalFilename === r.filename)?.sortOrder ===
+            settings.variantImagePosition
+        )
+      : successful.find((r) => r.mediaStatus === "READY") ?? successful[0];
+
+  if (!target?.mediaId) return;
+
+  // Shopify refuses to attach media to variants before processing is done
+  if (target.mediaStatus !== "READY") {
+    target.errorDetails = "Uploaded, but variant image not set: the image was not ready in time";
+    return;
+  }
 
   try {
-    // Generate alt text if SEO optimization is enabled
-    let altText: string | undefined;
-    if (settings.seoOptimization) {
-      const customText = settings.altTextByPosition?.[file.sortOrder];
-      const suffix = customText || `View ${String(file.sortOrder).padStart(2, "0")}`;
-      altText = `${product.title} - ${suffix}`;
-    }
-
-    // Step 1: Create staged upload target
-    const stagedTarget = await createStagedUpload(admin, file);
-
-    // Step 2: Upload file to staged target
-    await uploadToStagedTarget(stagedTarget, file);
-
-    // Step 3: Create product media with the uploaded file
-    await createProductMedia(admin, product.id, stagedTarget.resourceUrl, altText);
-
-    return {
-      filename: file.originalFilename,
-      detectedSku: file.sku,
-      productFound: true,
-      productTitle: product.title,
-      productId: product.id,
-      status: "success",
-    };
+    await setVariantMedia(admin, product.id, product.variantId, target.mediaId);
+    target.variantImageLinked = true;
   } catch (error) {
-    return {
-      filename: file.originalFilename,
-      detectedSku: file.sku,
-      productFound: true,
-      productTitle: product.title,
-      productId: product.id,
-      status: "error",
-      errorDetails: error instanceof Error ? error.message : "Unknown upload error",
-    };
+    target.errorDetails = `Uploaded, but variant image not set: ${
+      error instanceof Error ? error.message : "Unknown error"
+    }`;
   }
 }
 
 /**
- * Process all files for a single product based on upload strategy
+ * Alt text for a file: explicit text (e.g., from a manifest) wins,
+ * otherwise it is generated if SEO optimization is enabled
  */
-async function processProductFiles(
+function getAltText(
+  file: ParsedFileData,
+  product: ProductData,
+  settings: UploadSettings
+): string | undefined {
+  if (file.altText || !settings.seoOptimization) return file.altText;
+
+  const customText = settings.altTextByPosition?.[file.sortOrder];
+  // Vocabulary words like "front" double as the alt text suffix, also for numbered files
+  const label = file.positionLabel ?? findPositionWord(settings.filenamePattern?.positionVocabulary, file.sortOrder);
+  const labelText = label ? label.charAt(0).toUpperCase() + label.slice(1) : undefined;
+  const suffix = customText || labelText || `View ${String(file.sortOrder).padStart(2, "0")}`;
+  return `${product.title} - ${suffix}`;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown upload error";
+}
+
+/**
+ * Stage, upload and attach the files of one product. All files are staged in one call,
+ * uploaded in parallel and attached with a single productCreateMedia in sort order.
+ */
+async function uploadProductFiles(
   files: ParsedFileData[],
   product: ProductData,
   settings: UploadSettings,
-  admin: AdminContext
+  admin: AdminContext,
+  hooks: QueueHooks
 ): Promise<ProcessingResult[]> {
-  const results: ProcessingResult[] = [];
+  // Files the browser already uploaded come with their resource URL
+  const resourceUrls: Array<string | undefined> = files.map((file) => file.resourceUrl);
+  const mediaIds: Array<string | undefined> = [];
+  const errors: Array<string | undefined> = [];
 
-  // Sort files by sortOrder
-  const sortedFiles = [...files].sort((a, b) => a.sortOrder - b.sortOrder);
+  const limit = pLimit(MAX_CONCURRENT);
 
-  // Handle different upload strategies
-  if (settings.uploadStrategy === "replace") {
-    // Delete all existing media first
-    if (product.mediaIds.length > 0) {
+  const fail = async (index: number, message: string) => {
+    errors[index] = message;
+    await hooks.onEvent?.(files[index], "failed", message);
+  };
+
+  // Files uploaded from the server can be optimized first; what is staged may differ from the original
+  const uploads: ParsedFileData[] = [...files];
+  const sizes: Array<{ originalSize: number; optimizedSize: number } | undefined> = [];
+  const fromServer = files.map((_, index) => index).filter((index) => !resourceUrls[index]);
+  for (const index of fromServer) {
+    if (settings.imageOptimization?.enabled && files[index].fileData.byteLength > 0) {
       try {
-        await deleteProductMedia(admin, product.id, product.mediaIds);
+        const optimized = await optimizeImage(files[index], settings.imageOptimization);
+        if (optimized.file !== files[index]) {
+          uploads[index] = optimized.file;
+          sizes[index] = { originalSize: optimized.originalSize, optimizedSize: optimized.file.fileSize };
+        }
       } catch (error) {
-        // Log error but continue with upload
-        console.error(`Failed to delete existing media for ${product.id}:`, error);
+        await fail(index, `Could not optimize image: ${errorMessage(error)}`);
+        continue;
+      }
+    }
+    if (uploads[index].fileSize > SHOPIFY_MAX_IMAGE_SIZE) {
+      await fail(
+        index,
+        `File is ${(uploads[index].fileSize / 1024 / 1024).toFixed(2)}MB, over Shopify's 20MB image limit`
+      );
+    }
+  }
+
+  // Steps 1-2: Stage the remaining files in one call, then upload them in parallel
+  const toStage = fromServer.filter((index) => !errors[index]);
+  if (toStage.length > 0) {
+    try {
+      const targets = await createStagedUploads(admin, toStage.map((index) => uploads[index]));
+      await Promise.all(
+        toStage.map((index, n) =>
+          limit(async () => {
+            await hooks.onEvent?.(files[index], "staged");
+            try {
+              await uploadToStagedTarget(targets[n], uploads[index]);
+              resourceUrls[index] = targets[n].resourceUrl;
+              await hooks.onEvent?.(files[index], "uploaded");
+            } catch (error) {
+              await fail(index, errorMessage(error));
+            }
+          })
+        )
+      );
+    } catch (error) {
+      for (const index of toStage) {
+        await fail(index, errorMessage(error));
       }
     }
   }
 
-  // Process uploads with concurrency limit
-  const uploadPromises = sortedFiles.map((file) =>
-    limit(() =>
-      processOneUpload({
-        file,
-        product,
-        settings,
+  // Step 3: Attach everything that was uploaded in a single call, in sort order
+  const toAttach = files.map((_, index) => index).filter((index) => resourceUrls[index] && !errors[index]);
+  if (toAttach.length > 0) {
+    try {
+      const created = await createProductMedia(
         admin,
+        product.id,
+        toAttach.map((index) => ({
+          resourceUrl: resourceUrls[index] as string,
+          altText: getAltText(files[index], product, settings),
+        }))
+      );
+      for (const [n, index] of toAttach.entries()) {
+        const { mediaId, error } = created[n];
+        if (mediaId) {
+          mediaIds[index] = mediaId;
+          await hooks.onEvent?.(files[index], "media-created", product.title);
+        } else {
+          await fail(index, error ?? "No media ID returned");
+        }
+      }
+    } catch (error) {
+      for (const index of toAttach) {
+        await fail(index, errorMessage(error));
+      }
+    }
+  }
+
+  // Step 4: Wait for Shopify to process the new media, since images can still fail at this point
+  const created = mediaIds.filter((mediaId): mediaId is string => !!mediaId);
+  let states = new Map<string, MediaProcessingState>();
+  if (created.length > 0) {
+    try {
+      states = await waitForMediaProcessing(admin, created);
+    } catch (error) {
+      console.error(`Failed to check media processing for ${product.id}:`, error);
+    }
+  }
+
+  const results: ProcessingResult[] = [];
+  for (const [index, file] of files.entries()) {
+    const mediaId = mediaIds[index];
+    const state = mediaId ? states.get(mediaId) : undefined;
+
+    if (state?.status === "FAILED") {
+      await fail(index, `Media processing failed: ${state.error ?? "no details from Shopify"}`);
+    } else if (state?.status === "READY") {
+      await hooks.onEvent?.(file, "media-ready");
+    }
+
+    results.push(
+      errors[index]
+        ? {
+            ...productResultFields(file, product),
+            ...sizes[index],
+            mediaId,
+            mediaStatus: state?.status,
+            status: "error",
+            errorDetails: errors[index],
+          }
+        : {
+            ...productResultFields(file, product),
+            ...sizes[index],
+            mediaId,
+            mediaStatus: state?.status ?? "PROCESSING",
+            imageUrl: state?.imageUrl,
+            status: "success",
+          }
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Complete a replace once the new media has been processed. Old media is deleted only
+ * when every new image is ready; otherwise the failure policy decides what is kept.
+ */
+async function finishReplace(
+  results: ProcessingResult[],
+  product: ProductData,
+  settings: UploadSettings,
+  admin: AdminContext
+): Promise<void> {
+  // Media still processing at the timeout counts as not ready. Media that failed
+  // processing is attached all the same, so it is removed along with the rest.
+  const attached = results.filter((r) => r.mediaId);
+  const created = attached.filter((r) => r.status === "success");
+  const ready = created.filter((r) => r.mediaStatus === "READY");
+  const failedCount = results.length - ready.length;
+
+  if (failedCount === 0) {
+    try {
+      await deleteProductMedia(admin, product.id, product.mediaIds);
+    } catch (error) {
+      const message = `New images added, but old images could not be removed: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`;
+      for (const result of ready) {
+        result.errorDetails = message;
+      }
+    }
+    return;
+  }
+
+  // Nothing was added, so there is nothing to keep or roll back
+  if (attached.length === 0) return;
+
+  if (settings.replaceFailurePolicy === "rollback-new") {
+    try {
+      await deleteProductMedia(admin, product.id, attached.map((r) => r.mediaId as string));
+      for (const result of created) {
+        result.status = "error";
+        result.mediaStatus = undefined;
+        result.imageUrl = undefined;
+        result.errorDetails = `Rolled back because ${failedCount} of ${results.length} new images for this product did not succeed; existing images kept`;
+      }
+    } catch (error) {
+      for (const result of created) {
+        result.errorDetails = `Could not roll back after some images failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`;
+      }
+    }
+    return;
+  }
+
+  // The images that worked stay next to the old ones, but broken media doesn't
+  const broken = attached.filter((r) => r.mediaStatus === "FAILED");
+  if (broken.length > 0) {
+    try {
+      await deleteProductMedia(admin, product.id, broken.map((r) => r.mediaId as string));
+    } catch (error) {
+      console.error(`Failed to remove media that failed processing from ${product.id}:`, error);
+    }
+  }
+
+  for (const result of created) {
+    result.errorDetails = `Existing images kept because ${failedCount} of ${results.length} new images for this product did not succeed`;
+  }
+}
+
+/**
+ * Move new images to the gallery position given by their sort number, so position 3
+ * becomes the third image. Existing images shift down, or in replace-slot mode the
+ * image in that slot is deleted once its replacement is ready.
+ */
+async function placeAtPositions(
+  results: ProcessingResult[],
+  files: ParsedFileData[],
+  product: ProductData,
+  settings: UploadSettings,
+  admin: AdminContext
+): Promise<void> {
+  // Results are in the same order as the sorted files
+  const created = results
+    .map((result, index) => ({ result, slot: Math.max(files[index].sortOrder, 1) - 1 }))
+    .filter(({ result }) => result.status === "success" && result.mediaId);
+  if (created.length === 0) return;
+
+  let gallery = [...product.mediaIds];
+
+  if (settings.positionMode === "replace-slot") {
+    const replaced = new Map<string, ProcessingResult>();
+    for (const { result, slot } of created) {
+      const existingId = product.mediaIds[slot];
+      if (!existingId || replaced.has(existingId)) continue;
+      if (result.mediaStatus !== "READY") {
+        result.errorDetails = `Image in position ${slot + 1} kept because the new image is not ready yet`;
+        continue;
+      }
+      replaced.set(existingId, result);
+    }
+
+    if (replaced.size > 0) {
+      try {
+        await deleteProductMedia(admin, product.id, Array.from(replaced.keys()));
+        gallery = gallery.filter((id) => !replaced.has(id));
+      } catch (error) {
+        const message = `Uploaded, but the image it replaces could not be removed: ${errorMessage(error)}`;
+        replaced.forEach((result) => {
+          result.errorDetails = message;
+        });
+      }
+    }
+  }
+
+  // New media was attached at the end; work out where each one belongs.
+  // Files sharing a sort number follow each other in upload order.
+  let previous: { slot: number; index: number } | undefined;
+  for (const { result, slot } of created) {
+    const index = previous?.slot === slot ? previous.index + 1 : Math.min(slot, gallery.length);
+    gallery.splice(index, 0, result.mediaId as string);
+    previous = { slot, index };
+  }
+
+  // Moving in ascending target order keeps earlier placements in place
+  const moves = created
+    .map(({ result }) => ({ id: result.mediaId as string, newPosition: gallery.indexOf(result.mediaId as string) }))
+    .sort((a, b) => a.newPosition - b.newPosition)
+    .map((move) => ({ id: move.id, newPosition: String(move.newPosition) }));
+
+  try {
+    await moveProductMedia(admin, product.id, moves);
+  } catch (error) {
+    for (const { result } of created) {
+      result.errorDetails = `Uploaded, but not moved to its position: ${errorMessage(error)}`;
+    }
+  }
+}
+
+/**
+ * Files whose contents are already on the product, or repeat an earlier file of this
+ * upload, mapped to the reason they are not uploaded
+ */
+async function findDuplicates(
+  files: ParsedFileData[],
+  product: ProductData,
+  admin: AdminContext
+): Promise<Map<ParsedFileData, string>> {
+  const duplicates = new Map<ParsedFileData, string>();
+
+  // The browser hashes what it uploads itself; files stored on disk are hashed here
+  for (const file of files) {
+    if (!file.contentHash && file.fileData.byteLength > 0) {
+      file.contentHash = hashFileData(file.fileData);
+    }
+  }
+  const hashed = files.filter((file) => file.contentHash);
+  if (hashed.length === 0) return duplicates;
+
+  let existing = new Map<string, string>();
+  try {
+    existing = await getProductMediaHashes(
+      admin,
+      product.id,
+      product.mediaIds,
+      new Set(hashed.map((file) => file.fileSize))
+    );
+  } catch (error) {
+    console.error(`Failed to check existing media of ${product.id}:`, error);
+  }
+
+  const seen = new Map<string, ParsedFileData>();
+  for (const file of hashed) {
+    const hash = file.contentHash as string;
+    const earlier = seen.get(hash);
+    if (existing.has(hash)) {
+      duplicates.set(file, "Identical image is already on the product");
+    } else if (earlier) {
+      duplicates.set(file, `Same image as ${earlier.originalFilename} in this upload`);
+    } else {
+      seen.set(hash, file);
+    }
+  }
+
+  return duplicates;
+}
+
+/**
+ * Process all files for a single product based on upload strategy
+ */
+async function processProductFiles(
+  files: ParsedFileData[],
+  product: ProductData,
+  settings: UploadSettings,
+  admin: AdminContext,
+  hooks: QueueHooks
+): Promise<ProcessingResult[]> {
+  // Sort files by sortOrder
+  const sortedFiles = [...files].sort((a, b) => a.sortOrder - b.sortOrder);
+
+  // Replace keeps identical images too, since the existing copies are about to be deleted
+  const duplicates =
+    settings.uploadStrategy === "replace"
+      ? new Map<ParsedFileData, string>()
+      : await findDuplicates(sortedFiles, product, admin);
+  const uploadFiles = sortedFiles.filter((file) => !duplicates.has(file));
+
+  const uploadResults = await uploadProductFiles(uploadFiles, product, settings, admin, hooks);
+
+  try {
+    await recordMediaHashes(
+      product.id,
+      uploadFiles.flatMap((file, index) => {
+        const { status, mediaId } = uploadResults[index];
+        return status === "success" && mediaId && file.contentHash
+          ? [{ mediaId, hash: file.contentHash }]
+          : [];
       })
-    )
-  );
+    );
+  } catch (error) {
+    console.error(`Failed to record media hashes for ${product.id}:`, error);
+  }
 
-  const uploadResults = await Promise.all(uploadPromises);
-  results.push(...uploadResults);
+  // Replace only removes the old media once the new media is attached and ready
+  if (settings.uploadStrategy === "replace") {
+    await finishReplace(uploadResults, product, settings, admin);
+  }
+
+  if (settings.uploadStrategy === "position") {
+    await placeAtPositions(uploadResults, uploadFiles, product, settings, admin);
+  }
+
+  if (settings.assignVariantImage) {
+    await assignVariantImage(uploadResults, uploadFiles, product, settings, admin);
+  }
 
   // Handle prepend strategy - reorder media after upload
   if (settings.uploadStrategy === "prepend" && product.mediaIds.length > 0) {
-    const successfulUploads = uploadResults.filter((r) => r.status === "success");
+    const successfulUploads = uploadResults.filter((r) => r.status === "success" && r.mediaId);
     if (successfulUploads.length > 0) {
       try {
-        // New images should come first, then existing ones
-        // The reorder will be handled by position in productReorderMedia
-        await reorderProductMedia(admin, product.id, successfulUploads.length);
+        // New images should come first, then existing ones. Failed media is also at the end
+        // of the gallery, so the successful uploads are moved by ID.
+        await moveProductMedia(
+          admin,
+          product.id,
+          successfulUploads.map((r, index) => ({ id: r.mediaId as string, newPosition: String(index) }))
+        );
       } catch (error) {
         console.error(`Failed to reorder media for ${product.id}:`, error);
       }
     }
   }
 
+  // Results go back in sort order, duplicates included
+  return sortedFiles.map((file) =>
+    duplicates.has(file)
+      ? { ...productResultFields(file, product), status: "duplicate", errorDetails: duplicates.get(file) }
+      : uploadResults[uploadFiles.indexOf(file)]
+  );
+}
+
+/**
+ * Dry-run results for a product's files. With optimization on, each file is processed
+ * as it would be for upload; the result carries the sizes of the output and its
+ * thumbnail goes to `hooks.onPreview`, since results are stored and exported.
+ */
+async function previewProductFiles(
+  files: ParsedFileData[],
+  product: ProductData,
+  settings: UploadSettings,
+  hooks: QueueHooks
+): Promise<ProcessingResult[]> {
+  const results: ProcessingResult[] = [];
+
+  for (const file of files) {
+    const result: ProcessingResult = { ...productResultFields(file, product), status: "dry-run" };
+    if (!settings.imageOptimization?.enabled || file.fileData.byteLength === 0) {
+      results.push(result);
+      continue;
+    }
+
+    try {
+      const optimized = await optimizeImage(file, settings.imageOptimization);
+      const tooLarge = optimized.file.fileSize > SHOPIFY_MAX_IMAGE_SIZE;
+      await hooks.onPreview?.(file, await createPreview(optimized.file));
+      results.push({
+        ...result,
+        status: tooLarge ? "error" : "dry-run",
+        errorDetails: tooLarge
+          ? `File would be ${(optimized.file.fileSize / 1024 / 1024).toFixed(2)}MB, over Shopify's 20MB image limit`
+          : undefined,
+        originalSize: optimized.originalSize,
+        optimizedSize: optimized.file.fileSize,
+      });
+    } catch (error) {
+      results.push({ ...result, status: "error", errorDetails: `Could not optimize image: ${errorMessage(error)}` });
+    }
+  }
+
   return results;
 }
 
 /**
- * Process the entire upload queue
+ * Process the entire upload queue. Groups whose product lookup failed are
+ * reported with the error from `lookupErrors` instead of as not found.
  */
 export async function processUploadQueue(
   groupedFiles: Record<string, ParsedFileData[]>,
   productMap: Map<string, ProductData>,
   settings: UploadSettings,
-  admin: AdminContext
+  admin: AdminContext,
+  hooks: QueueHooks = {},
+  lookupErrors: Map<string, string> = new Map()
 ): Promise<ProcessingResult[]> {
   const allResults: ProcessingResult[] = [];
 
+  const report = async (files: ParsedFileData[], results: ProcessingResult[]) => {
+    for (let i = 0; i < files.length; i++) {
+      // Uploads emit their own events along the way; skips, duplicates and dry runs finish here
+      const { status, errorDetails } = results[i];
+      if (status === "skipped" || status === "duplicate" || status === "dry-run") {
+        await hooks.onEvent?.(files[i], status, errorDetails);
+      }
+      await hooks.onResult?.(files[i], results[i]);
+    }
+  };
+
   // Process each SKU group
   for (const [sku, files] of Object.entries(groupedFiles)) {
     const product = productMap.get(sku);
 
-    if (!product) {
-      // Product not found - mark all files for this SKU as skipped
+    const lookupError = lookupErrors.get(sku);
+    if (!product && lookupError) {
+      const errorResults: ProcessingResult[] = files.map((file) => ({
+        filename: file.originalFilename,
+        detectedSku: file.sku,
+        productFound: false,
+        status: "error",
+        errorDetails: `Could not look up ${getMatchKeyLabel(settings.matchKey)} ${sku}: ${lookupError}`,
+      }));
       for (const file of files) {
-        allResults.push({
-          filename: file.originalFilename,
-          detectedSku: file.sku,
-          productFound: false,
-          status: "skipped",
-          errorDetails: `No product found with SKU: ${sku}`,
-        });
+        await hooks.onEvent?.(file, "failed", errorResults[0].errorDetails);
       }
+      allResults.push(...errorResults);
+      await report(files, errorResults);
+      continue;
+    }
+
+    if (!product) {
+      // Product not found - mark all files for this SKU as skipped
+      const skippedResults: ProcessingResult[] = files.map((file) => ({
+        filename: file.originalFilename,
+        detectedSku: file.sku,
+        productFound: false,
+        status: "skipped",
+        errorDetails: `No product found with ${getMatchKeyLabel(settings.matchKey)}: ${sku}`,
+      }));
+      allResults.push(...skippedResults);
+      await report(files, skippedResults);
       continue;
     }
 
     // Dry run mode - don't actually upload
     if (settings.dryRun) {
-      for (const file of files) {
-        allResults.push({
-          filename: file.originalFilename,
-          detectedSku: file.sku,
-          productFound: true,
-          productTitle: product.title,
-          productId: product.id,
-          status: "dry-run",
-        });
-      }
+      const dryRunResults = await previewProductFiles(files, product, settings, hooks);
+      allResults.push(...dryRunResults);
+      await report(files, dryRunResults);
       continue;
     }
 
-    // Process actual uploads
-    const productResults = await processProductFiles(files, product, settings, admin);
+    // Process actual uploads; results come back in sort order
+    const sortedFiles = [...files].sort((a, b) => a.sortOrder - b.sortOrder);
+    const productResults = await processProductFiles(sortedFiles, product, settings, admin, hooks);
     allResults.push(...productResults);
+    await report(sortedFiles, productResults);
   }
 
   return allResults;
@@ -195,5 +655,6 @@ export function generateSummary(results: ProcessingResult[]) {
     failed: results.filter((r) => r.status === "error").length,
     skipped: results.filter((r) => r.status === "skipped").length,
     dryRun: results.filter((r) => r.status === "dry-run").length,
+    duplicate: results.filter((r) => r.status === "duplicate").length,
   };
 }
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MediaDetails } from "./shopifyMedia.server";
+
+const { job, media } = vi.hoisted(() => ({
+  job: { current: null as Record<string, unknown> | null, claimable: true },
+  media: {
+    current: new Map<string, MediaDetails[]>(),
+    failing: new Set<string>(), // Calls that reject, e.g. "details" or "create"
+    calls: [] as Array<[string, ...unknown[]]>,
+  },
+}));
+
+vi.mock("~/db.server", () => ({
+  default: {
+    uploadJob: {
+      findFirst: async () => job.current,
+      updateMany: async () => {
+        const count = job.claimable ? 1 : 0;
+        job.claimable = false;
+        return { count };
+      },
+      update: async ({ data }: { data: { undoneAt: Date | null } }) => {
+        job.claimable = data.undoneAt === null;
+      },
+    },
+  },
+}));
+
+// Records the calls undo makes; re-created images get new IDs
+vi.mock("./shopifyMedia.server", () => ({
+  getProductMediaDetails: async (_admin: unknown, productIds: string[]) => {
+    if (media.failing.has("details")) throw new Error("Throttled");
+    return new Map(productIds.flatMap((id) => (media.current.has(id) ? [[id, media.current.get(id)]] : [])));
+  },
+  deleteProductMedia: async (_admin: unknown, productId: string, ids: string[]) => {
+    media.calls.push(["delete", productId, ids]);
+  },
+  createProductMedia: async (_admin: unknown, productId: string, items: Array<{ resourceUrl: string }>) => {
+    media.calls.push(["create", productId, items]);
+    if (media.failing.has("create")) throw new Error("Throttled");
+    return items.map((_, index) => ({ mediaId: `gid://shopify/MediaImage/new-${index}` }));
+  },
+  moveProductMedia: async (_admin: unknown, productId: string, moves: unknown[]) => {
+    media.calls.push(["move", productId, moves]);
+  },
+  updateProductMediaAlt: async (_admin: unknown, productId: string, changes: unknown[]) => {
+    media.calls.push(["alt", productId, changes]);
+  },
+}));
+
+const { undoUploadJob } = await import("./jobUndo.server");
+
+const PRODUCT = "gid://shopify/Product/1";
+const admin = { graphql: async () => Response.json({}) };
+
+const image = (id: string, alt: string): MediaDetails => ({
+  id: `gid://shopify/MediaImage/${id}`,
+  alt,
+  mediaContentType: "IMAGE",
+  url: `https://cdn.shopify.com/files/${id}.jpg`,
+});
+
+beforeEach(() => {
+  media.calls = [];
+  media.failing.clear();
+  job.claimable = true;
+
+  // Before the job: A, B, C. The job replaced B with N and edited A's alt text.
+  job.current = {
+    id: "job-1",
+    undoneAt: null,
+    snapshots: [
+      {
+        productId: PRODUCT,
+        productTitle: "Dress",
+        sku: "DRESS",
+        media: JSON.stringify([image("A", "Front"), image("B", "Back"), image("C", "Side")]),
+      },
+    ],
+    items: [
+      {
+        result: JSON.stringify({
+          filename: "DRESS-2.jpg",
+          detectedSku: "DRESS",
+          productFound: true,
+          productId: PRODUCT,
+          mediaId: "gid://shopify/MediaImage/N",
+          status: "success",
+        }),
+      },
+      { result: null },
+    ],
+  };
+  media.current = new Map([[PRODUCT, [image("C", "Side"), image("N", "Back"), image("A", "Dress - Front")]]]);
+});
+
+describe("undoUploadJob", () => {
+  it("removes added media, re-creates deleted media and restores order and alt text", async () => {
+    const results = await undoUploadJob(admin, "job-1", "shop.myshopify.com");
+
+    expect(media.calls).toEqual([
+      ["delete", PRODUCT, ["gid://shopify/MediaImage/N"]],
+      ["create", PRODUCT, [{ resourceUrl: "https://cdn.shopify.com/files/B.jpg", altText: "Back" }]],
+      [
+        "move",
+        PRODUCT,
+        [
+          { id: "gid://shopify/MediaImage/A", newPosition: "0" },
+          { id: "gid://shopify/MediaImage/new-0", newPosition: "1" },
+          { id: "gid://shopify/MediaImage/C", newPosition: "2" },
+        ],
+      ],
+      ["alt", PRODUCT, [{ id: "gid://shopify/MediaImage/A", alt: "Front" }]],
+    ]);
+    expect(results.map(({ filename, status, message, errorDetails }) => ({ filename, status, message, errorDetails })))
+      .toEqual([
+        { filename: "DRESS-2.jpg", status: "success", message: "Removed", errorDetails: undefined },
+        { filename: "B.jpg", status: "success", message: "Restored", errorDetails: undefined },
+      ]);
+  });
+
+  it("reports products that no longer exist", async () => {
+    media.current = new Map();
+
+    const results = await undoUploadJob(admin, "job-1", "shop.myshopify.com");
+
+    expect(results).toEqual([
+      expect.objectContaining({ productFound: false, status: "error", errorDetails: "Product no longer exists" }),
+    ]);
+    expect(media.calls).toEqual([]);
+  });
+
+  it("undoes a job only once", async () => {
+    await undoUploadJob(admin, "job-1", "shop.myshopify.com");
+    job.current = { ...job.current, undoneAt: new Date() };
+
+    await expect(undoUploadJob(admin, "job-1", "shop.myshopify.com")).rejects.toThrow("This job was already undone");
+  });
+
+  it("can be tried again when Shopify fails before anything was restored", async () => {
+    media.failing.add("details");
+    await expect(undoUploadJob(admin, "job-1", "shop.myshopify.com")).rejects.toThrow("Throttled");
+    expect(media.calls).toEqual([]);
+
+    media.failing.clear();
+    const results = await undoUploadJob(admin, "job-1", "shop.myshopify.com");
+
+    expect(results.map((result) => result.message)).toEqual(["Removed", "Restored"]);
+  });
+
+  it("reports images that could not be restored and keeps the job undone", async () => {
+    media.failing.add("create");
+
+    const results = await undoUploadJob(admin, "job-1", "shop.myshopify.com");
+
+    expect(results.map(({ filename, status, errorDetails }) => ({ filename, status, errorDetails }))).toEqual([
+      { filename: "DRESS-2.jpg", status: "success", errorDetails: undefined },
+      { filename: "B.jpg", status: "error", errorDetails: "Could not restore image: Throttled" },
+    ]);
+    // Restoring again would re-create the images that did come back
+    expect(job.claimable).toBe(false);
+  });
+});
@@ -0,0 +1,255 @@
+import type { UploadJobSnapshot } from "@prisma/client";
+import db from "~/db.server";
+import type { ProcessingResult } from "~/types";
+import type { AdminContext } from "./adminClient.server";
+import {
+  createProductMedia,
+  deleteProductMedia,
+  getProductMediaDetails,
+  moveProductMedia,
+  updateProductMediaAlt,
+  type MediaDetails,
+} from "./shopifyMedia.server";
+
+export interface SnapshotProduct {
+  productId: string;
+  productTitle: string;
+  sku: string;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+/**
+ * Name to show for a media item that has no upload of its own, taken from its source URL
+ */
+function mediaFilename(media: MediaDetails): string {
+  if (media.url) {
+    const name = new URL(media.url).pathname.split("/").pop();
+    if (name) return decodeURIComponent(name);
+  }
+  return `${media.mediaContentType.toLowerCase()} ${media.id.split("/").pop()}`;
+}
+
+/**
+ * Record the media of the products a job is about to change. Products captured
+ * by an earlier run of the same job keep their original snapshot.
+ */
+export async function snapshotJobProducts(
+  admin: AdminContext,
+  jobId: string,
+  products: SnapshotProduct[]
+): Promise<void> {
+  const existing = await db.uploadJobSnapshot.findMany({
+    where: { jobId },
+    select: { productId: true },
+  });
+  const captured = new Set(existing.map((snapshot) => snapshot.productId));
+  const toCapture = products.filter((product) => !captured.has(product.productId));
+  if (toCapture.length === 0) return;
+
+  const media = await getProductMediaDetails(
+    admin,
+    toCapture.map((product) => product.productId)
+  );
+
+  await db.uploadJobSnapshot.createMany({
+    data: toCapture
+      .filter((product) => media.has(product.productId))
+      .map((product) => ({
+        jobId,
+        productId: product.productId,
+        productTitle: product.productTitle,
+        sku: product.sku,
+        media: JSON.stringify(media.get(product.productId)),
+      })),
+  });
+}
+
+/**
+ * Roll a finished job back: remove the media it added, re-create media it deleted
+ * from the snapshot, and restore the original order and alt text
+ */
+export async function undoUploadJob(
+  admin: AdminContext,
+  jobId: string,
+  shop: string
+): Promise<ProcessingResult[]> {
+  const job = await db.uploadJob.findFirst({
+    where: { id: jobId, shop },
+    include: { snapshots: { orderBy: { id: "asc" } }, items: { orderBy: { position: "asc" } } },
+  });
+
+  if (!job) {
+    throw new Error("Upload job not found");
+  }
+  if (job.snapshots.length === 0) {
+    throw new Error("This job has no snapshot to restore");
+  }
+
+  // Claiming the undo up front keeps a double click from running it twice
+  const claimed = await db.uploadJob.updateMany({
+    where: { id: jobId, undoneAt: null, status: { in: ["completed", "failed"] } },
+    data: { undoneAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new Error(job.undoneAt ? "This job was already undone" : "Only finished jobs can be undone");
+  }
+
+  const { snapshots } = job;
+  let added: ProcessingResult[];
+  let current: Map<string, MediaDetails[]>;
+  try {
+    added = job.items
+      .filter((item) => item.result)
+      .map((item) => JSON.parse(item.result as string))
+      .filter((result: ProcessingResult) => result.mediaId);
+    current = await getProductMediaDetails(
+      admin,
+      snapshots.map((snapshot) => snapshot.productId)
+    );
+  } catch (error) {
+    // Nothing was changed yet, so release the claim and let the undo be tried again.
+    // Later failures are reported per product, since restoring twice would duplicate media.
+    await db.uploadJob.update({ where: { id: jobId }, data: { undoneAt: null } });
+    throw error;
+  }
+
+  const results: ProcessingResult[] = [];
+  for (const snapshot of snapshots) {
+    results.push(
+      ...(await restoreProduct(
+        admin,
+        snapshot,
+        added.filter((result) => result.productId === snapshot.productId),
+        current.get(snapshot.productId)
+      ))
+    );
+  }
+
+  return results;
+}
+
+async function restoreProduct(
+  admin: AdminContext,
+  snapshot: UploadJobSnapshot,
+  added: ProcessingResult[],
+  current: MediaDetails[] | undefined
+): Promise<ProcessingResult[]> {
+  const { productId } = snapshot;
+  const product = {
+    detectedSku: snapshot.sku,
+    productFound: true,
+    productTitle: snapshot.productTitle,
+    productId,
+  };
+
+  if (!current) {
+    return [{
+      ...product,
+      filename: snapshot.productTitle,
+      productFound: false,
+      status: "error",
+      errorDetails: "Product no longer exists",
+    }];
+  }
+
+  const original: MediaDetails[] = JSON.parse(snapshot.media);
+  const currentById = new Map(current.map((media) => [media.id, media]));
+  const results: ProcessingResult[] = [];
+
+  // Media the job added that is still on the product
+  const toRemove = added.filter((result) => currentById.has(result.mediaId as string));
+  if (toRemove.length > 0) {
+    let removeError: string | undefined;
+    try {
+      await deleteProductMedia(admin, productId, toRemove.map((result) => result.mediaId as string));
+    } catch (error) {
+      removeError = `Could not remove uploaded image: ${errorMessage(error)}`;
+    }
+    for (const result of toRemove) {
+      results.push({
+        ...product,
+        filename: result.filename,
+        detectedSku: result.detectedSku,
+        variantTitle: result.variantTitle,
+        variantId: result.variantId,
+        mediaId: result.mediaId,
+        status: removeError ? "error" : "success",
+        errorDetails: removeError,
+        message: removeError ? undefined : "Removed",
+      });
+    }
+  }
+
+  // Original media that is gone, usually deleted by a replace
+  const missing = original.filter((media) => !currentById.has(media.id));
+  const restorable = missing.filter((media) => media.url);
+  for (const media of missing.filter((item) => !item.url)) {
+    results.push({
+      ...product,
+      filename: mediaFilename(media),
+      status: "error",
+      errorDetails: "Only images can be restored from the snapshot",
+    });
+  }
+
+  const restoredIds = new Map<string, string>();
+  if (restorable.length > 0) {
+    let created: Array<{ mediaId?: string; error?: string }>;
+    try {
+      created = await createProductMedia(
+        admin,
+        productId,
+        restorable.map((media) => ({ resourceUrl: media.url as string, altText: media.alt }))
+      );
+    } catch (error) {
+      created = restorable.map(() => ({ error: errorMessage(error) }));
+    }
+
+    restorable.forEach((media, index) => {
+      const { mediaId, error } = created[index];
+      if (mediaId) restoredIds.set(media.id, mediaId);
+      results.push({
+        ...product,
+        filename: mediaFilename(media),
+        mediaId,
+        imageUrl: mediaId ? media.url : undefined,
+        status: mediaId ? "success" : "error",
+        errorDetails: mediaId ? undefined : `Could not restore image: ${error}`,
+        message: mediaId ? "Restored" : undefined,
+      });
+    });
+  }
+
+  // Surviving and re-created media go back to their original positions and alt text
+  const ordered = original
+    .map((media) => (currentById.has(media.id) ? media.id : restoredIds.get(media.id)))
+    .filter((id): id is string => !!id);
+  const altChanges = original.filter(
+    (media) => currentById.has(media.id) && currentById.get(media.id)?.alt !== media.alt
+  );
+
+  try {
+    await moveProductMedia(
+      admin,
+      productId,
+      ordered.map((id, index) => ({ id, newPosition: String(index) }))
+    );
+    await updateProductMediaAlt(
+      admin,
+      productId,
+      altChanges.map((media) => ({ id: media.id, alt: media.alt }))
+    );
+  } catch (error) {
+    results.push({
+      ...product,
+      filename: snapshot.productTitle,
+      status: "error",
+      errorDetails: `Could not restore media order and alt text: ${errorMessage(error)}`,
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,108 @@
+import * as XLSX from "xlsx";
+import { describe, expect, it } from "vitest";
+import type { ParsedFile } from "~/types";
+import { applyManifest, isManifestFile, parseManifestFile } from "./manifestParser";
+
+function csv(name: string, content: string): File {
+  return new File([content], name, { type: "text/csv" });
+}
+
+function parsedImage(name: string, overrides: Partial<ParsedFile> = {}): ParsedFile {
+  return {
+    originalFilename: name,
+    sku: "",
+    sortOrder: 0,
+    file: new File([new Uint8Array(16)], name, { type: "image/jpeg" }),
+    isValid: false,
+    error: "No hyphen found - cannot determine sort order",
+    ...overrides,
+  };
+}
+
+describe("isManifestFile", () => {
+  it("recognises CSV and Excel files", () => {
+    expect(isManifestFile("images.CSV")).toBe(true);
+    expect(isManifestFile("images.xlsx")).toBe(true);
+    expect(isManifestFile("images.jpg")).toBe(false);
+  });
+});
+
+describe("parseManifestFile", () => {
+  it("reads CSV rows using header aliases", async () => {
+    const manifest = await parseManifestFile(
+      csv("map.csv", "Image,Product SKU,Sort Order,Alt Text\nfront.jpg,dress-1,1,Red dress\nback.jpg,dress-1,,\n")
+    );
+
+    expect(manifest.issues).toEqual([]);
+    expect(manifest.rows).toEqual([
+      { row: 2, filename: "front.jpg", sku: "DRESS-1", position: 1, altText: "Red dress" },
+      { row: 3, filename: "back.jpg", sku: "DRESS-1", position: null, altText: undefined },
+    ]);
+  });
+
+  it("keeps leading zeros in CSV values", async () => {
+    const manifest = await parseManifestFile(csv("map.csv", "filename,sku\n0012.jpg,00451\n"));
+    expect(manifest.rows[0]).toMatchObject({ filename: "0012.jpg", sku: "00451" });
+  });
+
+  it("reads the first sheet of a workbook", async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ["filename", "sku", "position"],
+        ["a.jpg", "top", 2],
+      ]),
+      "Images"
+    );
+    const data: ArrayBuffer = XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+
+    const manifest = await parseManifestFile(new File([data], "map.xlsx"));
+    expect(manifest.rows).toEqual([{ row: 2, filename: "a.jpg", sku: "TOP", position: 2, altText: undefined }]);
+  });
+
+  it("reports rows with missing or invalid values as issues", async () => {
+    const manifest = await parseManifestFile(
+      csv("map.csv", "filename,sku,position\n,A,1\nb.jpg,,1\nc.jpg,C,-1\nd.jpg,D,x\n")
+    );
+
+    expect(manifest.rows).toEqual([]);
+    expect(manifest.issues.map((issue) => [issue.row, issue.message])).toEqual([
+      [2, "Missing filename"],
+      [3, "Missing SKU"],
+      [4, 'Invalid position: "-1"'],
+      [5, 'Invalid position: "x"'],
+    ]);
+  });
+
+  it("requires filename and sku columns", async () => {
+    await expect(parseManifestFile(csv("map.csv", "file,position\na.jpg,1\n"))).rejects.toThrow(
+      'must have "filename" and "sku" columns'
+    );
+  });
+});
+
+describe("applyManifest", () => {
+  it("overrides parsed values and revalidates the files it lists", () => {
+    const files = [
+      parsedImage("Front.JPG"),
+      parsedImage("DRESS-02.jpg", { sku: "DRESS", sortOrder: 2, isValid: true, error: undefined }),
+      parsedImage("other.jpg"),
+    ];
+
+    const { files: updated, issues } = applyManifest(files, {
+      sourceName: "map.csv",
+      rows: [
+        { row: 2, filename: "front.jpg", sku: "DRESS", position: 1, altText: "Front view" },
+        { row: 3, filename: "DRESS-02.jpg", sku: "GOWN", position: null },
+        { row: 4, filename: "missing.jpg", sku: "DRESS", position: 3 },
+      ],
+      issues: [],
+    });
+
+    expect(updated[0]).toMatchObject({ sku: "DRESS", sortOrder: 1, altText: "Front view", manifestRow: 2, isValid: true });
+    expect(updated[1]).toMatchObject({ sku: "GOWN", sortOrder: 2, manifestRow: 3, isValid: true });
+    expect(updated[2]).toBe(files[2]);
+    expect(issues).toEqual([{ row: 4, filename: "missing.jpg", message: "File not found in upload" }]);
+  });
+});
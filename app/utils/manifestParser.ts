@@ -0,0 +1,163 @@
+import * as XLSX from "xlsx";
+import type { ParsedFile } from "~/types";
+import { validateFile } from "./fileParser";
+
+const MANIFEST_EXTENSIONS = [".csv", ".xlsx", ".xls"];
+
+// Accepted header spellings for each manifest column
+const COLUMN_ALIASES: Record<keyof Omit<ManifestRow, "row">, string[]> = {
+  filename: ["filename", "file", "file name", "image", "image filename"],
+  sku: ["sku", "product sku", "variant sku"],
+  position: ["position", "sort", "sort order", "sortorder", "order"],
+  altText: ["alt", "alt text", "alttext", "alt_text"],
+};
+
+export interface ManifestRow {
+  row: number; // 1-based spreadsheet row, header is row 1
+  filename: string;
+  sku: string;
+  position: number | null;
+  altText?: string;
+}
+
+export interface ManifestIssue {
+  row: number;
+  filename: string;
+  message: string;
+}
+
+export interface Manifest {
+  sourceName: string;
+  rows: ManifestRow[];
+  issues: ManifestIssue[];
+}
+
+/**
+ * Check whether a filename looks like a CSV/XLSX manifest
+ */
+export function isManifestFile(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return MANIFEST_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+/**
+ * Parse a CSV or XLSX manifest into rows, collecting per-row problems as issues
+ */
+export async function parseManifestFile(file: File): Promise<Manifest> {
+  const workbook = file.name.toLowerCase().endsWith(".csv")
+    ? XLSX.read(await file.text(), { type: "string", raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: "array" });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error(`Manifest ${file.name} has no sheets`);
+  }
+
+  const table: unknown[][] = XLSX.utils.sheet_to_json(sheet, {
+    header: 1,
+    blankrows: false,
+    defval: "",
+  });
+
+  return parseManifestTable(file.name, table);
+}
+
+/**
+ * Map a header row + data rows to manifest rows
+ */
+function parseManifestTable(sourceName: string, table: unknown[][]): Manifest {
+  const [headerRow = [], ...dataRows] = table;
+  const headers = headerRow.map((cell) => String(cell).trim().toLowerCase());
+
+  const columnIndex = (column: keyof typeof COLUMN_ALIASES) =>
+    headers.findIndex((header) => COLUMN_ALIASES[column].includes(header));
+
+  const filenameCol = columnIndex("filename");
+  const skuCol = columnIndex("sku");
+  const positionCol = columnIndex("position");
+  const altTextCol = columnIndex("altText");
+
+  if (filenameCol === -1 || skuCol === -1) {
+    throw new Error(`Manifest ${sourceName} must have "filename" and "sku" columns`);
+  }
+
+  const rows: ManifestRow[] = [];
+  const issues: ManifestIssue[] = [];
+
+  dataRows.forEach((cells, index) => {
+    const row = index + 2;
+    const cell = (col: number) => (col === -1 ? "" : String(cells[col] ?? "").trim());
+
+    const filename = cell(filenameCol);
+    const sku = cell(skuCol).toUpperCase();
+    const positionStr = cell(positionCol);
+    const altText = cell(altTextCol);
+
+    if (!filename) {
+      issues.push({ row, filename, message: "Missing filename" });
+      return;
+    }
+    if (!sku) {
+      issues.push({ row, filename, message: "Missing SKU" });
+      return;
+    }
+
+    let position: number | null = null;
+    if (positionStr) {
+      position = parseInt(positionStr, 10);
+      if (isNaN(position) || position < 0) {
+        issues.push({ row, filename, message: `Invalid position: "${positionStr}"` });
+        return;
+      }
+    }
+
+    rows.push({ row, filename, sku, position, altText: altText || undefined });
+  });
+
+  return { sourceName, rows, issues };
+}
+
+/**
+ * Apply manifest rows on top of filename-parsed files.
+ * Manifest values override whatever parseFilename detected; rows without a
+ * matching file are reported as issues.
+ */
+export function applyManifest(
+  files: ParsedFile[],
+  manifest: Manifest
+): { files: ParsedFile[]; issues: ManifestIssue[] } {
+  const rowsByFilename = new Map<string, ManifestRow>();
+  for (const row of manifest.rows) {
+    rowsByFilename.set(row.filename.toLowerCase(), row);
+  }
+
+  const seen = new Set<string>();
+  const updatedFiles = files.map((parsed): ParsedFile => {
+    const key = parsed.originalFilename.toLowerCase();
+    const row = rowsByFilename.get(key);
+    if (!row) return parsed;
+
+    seen.add(key);
+
+    // Files listed in the manifest still need a valid type and size
+    const validation = validateFile(parsed.file);
+    return {
+      ...parsed,
+      sku: row.sku,
+      sortOrder: row.position ?? (parsed.isValid ? parsed.sortOrder : 1),
+      altText: row.altText,
+      manifestRow: row.row,
+      isValid: validation.valid,
+      error: validation.error,
+    };
+  });
+
+  const issues = [...manifest.issues];
+  for (const row of manifest.rows) {
+    if (!seen.has(row.filename.toLowerCase())) {
+      issues.push({ row: row.row, filename: row.filename, message: "File not found in upload" });
+    }
+  }
+
+  return { files: updatedFiles, issues };
+}
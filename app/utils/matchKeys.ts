@@ -0,0 +1,27 @@
+import type { MatchKey } from "~/types";
+
+export const MATCH_KEY_OPTIONS: Array<{ label: string; value: MatchKey }> = [
+  { label: "SKU", value: "sku" },
+  { label: "Barcode / GTIN", value: "barcode" },
+  { label: "Product handle", value: "handle" },
+  { label: "Product ID", value: "productId" },
+  { label: "Metafield", value: "metafield" },
+];
+
+/**
+ * Short label for a match key, used in column headings and messages
+ */
+export function getMatchKeyLabel(matchKey: MatchKey = "sku"): string {
+  switch (matchKey) {
+    case "barcode":
+      return "Barcode";
+    case "handle":
+      return "Handle";
+    case "productId":
+      return "Product ID";
+    case "metafield":
+      return "Metafield";
+    default:
+      return "SKU";
+  }
+}
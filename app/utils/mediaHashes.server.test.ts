@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Shared with the mocks, which vi.mock hoists above the imports
+const { rows, sources } = vi.hoisted(() => ({
+  rows: new Map<string, { mediaId: string; productId: string; hash: string }>(),
+  sources: new Map<string, { url: string; fileSize: number | null }>(),
+}));
+
+vi.mock("~/db.server", () => ({
+  default: {
+    mediaHash: {
+      findMany: async ({ where }: { where: { mediaId: { in: string[] } } }) =>
+        Array.from(rows.values()).filter((row) => where.mediaId.in.includes(row.mediaId)),
+      upsert: async ({ create }: { create: { mediaId: string; productId: string; hash: string } }) => {
+        rows.set(create.mediaId, create);
+      },
+    },
+    $transaction: (operations: Array<Promise<unknown>>) => Promise.all(operations),
+  },
+}));
+
+vi.mock("./shopifyMedia.server", () => ({
+  getMediaOriginalSources: async (_admin: unknown, ids: string[]) =>
+    new Map(ids.flatMap((id) => (sources.has(id) ? [[id, sources.get(id)]] : []))),
+}));
+
+const { getProductMediaHashes, hashFileData, recordMediaHashes } = await import("./mediaHashes.server");
+
+const PRODUCT = "gid://shopify/Product/1";
+const admin = { graphql: async () => Response.json({}) };
+
+const bytes = (content: string) => new TextEncoder().encode(content).buffer as ArrayBuffer;
+
+// Serves each original's content from its URL
+const downloads: string[] = [];
+const originals: Record<string, string> = {
+  "https://cdn.example.com/front.jpg": "front",
+  "https://cdn.example.com/other.jpg": "other",
+};
+
+beforeEach(() => {
+  rows.clear();
+  sources.clear();
+  downloads.length = 0;
+  vi.stubGlobal("fetch", async (url: string) => {
+    downloads.push(url);
+    return url in originals ? new Response(originals[url]) : new Response(null, { status: 404 });
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("getProductMediaHashes", () => {
+  it("uses recorded hashes without downloading", async () => {
+    await recordMediaHashes(PRODUCT, [{ mediaId: "media-1", hash: hashFileData(bytes("front")) }]);
+
+    const hashes = await getProductMediaHashes(admin, PRODUCT, ["media-1"], new Set([5]));
+
+    expect(hashes).toEqual(new Map([[hashFileData(bytes("front")), "media-1"]]));
+    expect(downloads).toEqual([]);
+  });
+
+  it("downloads and records media of a matching size, and skips the rest", async () => {
+    sources.set("media-1", { url: "https://cdn.example.com/front.jpg", fileSize: 5 });
+    sources.set("media-2", { url: "https://cdn.example.com/large.jpg", fileSize: 5000 });
+
+    const hashes = await getProductMediaHashes(admin, PRODUCT, ["media-1", "media-2"], new Set([5]));
+
+    expect(hashes).toEqual(new Map([[hashFileData(bytes("front")), "media-1"]]));
+    expect(downloads).toEqual(["https://cdn.example.com/front.jpg"]);
+    expect(rows.get("media-1")).toEqual({ mediaId: "media-1", productId: PRODUCT, hash: hashFileData(bytes("front")) });
+  });
+
+  it("leaves out media whose original can't be downloaded", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    sources.set("media-1", { url: "https://cdn.example.com/missing.jpg", fileSize: null });
+    sources.set("media-2", { url: "https://cdn.example.com/other.jpg", fileSize: null });
+
+    const hashes = await getProductMediaHashes(admin, PRODUCT, ["media-1", "media-2"], new Set([5]));
+
+    expect(Array.from(hashes.values())).toEqual(["media-2"]);
+    expect(Array.from(rows.keys())).toEqual(["media-2"]);
+  });
+});
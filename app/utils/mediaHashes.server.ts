@@ -0,0 +1,89 @@
+import { createHash } from "node:crypto";
+import type { MediaHash } from "@prisma/client";
+import pLimit from "p-limit";
+import db from "~/db.server";
+import type { AdminContext } from "./adminClient.server";
+import { getMediaOriginalSources } from "./shopifyMedia.server";
+
+// Existing originals downloaded at once while hashing a product's media
+const DOWNLOAD_CONCURRENCY = 4;
+
+/**
+ * SHA-256 of file contents, hex encoded like the hashes the browser sends
+ */
+export function hashFileData(data: ArrayBuffer): string {
+  return createHash("sha256").update(Buffer.from(data)).digest("hex");
+}
+
+/**
+ * Content hashes of a product's current media, keyed by hash. Media without a
+ * recorded hash is downloaded and hashed, but only when its size matches one of the
+ * files being uploaded, since otherwise it can't be identical to any of them.
+ */
+export async function getProductMediaHashes(
+  admin: AdminContext,
+  productId: string,
+  mediaIds: string[],
+  fileSizes: Set<number>
+): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  if (mediaIds.length === 0) return hashes;
+
+  const known = await db.mediaHash.findMany({
+    where: { mediaId: { in: mediaIds } },
+  });
+  for (const row of known) {
+    hashes.set(row.hash, row.mediaId);
+  }
+
+  const knownIds = new Set(known.map((row) => row.mediaId));
+  const unknown = mediaIds.filter((id) => !knownIds.has(id));
+  if (unknown.length === 0) return hashes;
+
+  const sources = await getMediaOriginalSources(admin, unknown);
+  const limit = pLimit(DOWNLOAD_CONCURRENCY);
+  const recorded: Array<Pick<MediaHash, "mediaId" | "hash">> = [];
+
+  await Promise.all(
+    Array.from(sources.entries())
+      .filter(([, source]) => source.fileSize === null || fileSizes.has(source.fileSize))
+      .map(([mediaId, source]) =>
+        limit(async () => {
+          try {
+            const response = await fetch(source.url);
+            if (!response.ok) {
+              throw new Error(`${response.status} ${response.statusText}`);
+            }
+            const hash = hashFileData(await response.arrayBuffer());
+            hashes.set(hash, mediaId);
+            recorded.push({ mediaId, hash });
+          } catch (error) {
+            console.error(`Failed to hash media ${mediaId}:`, error);
+          }
+        })
+      )
+  );
+
+  await recordMediaHashes(productId, recorded);
+  return hashes;
+}
+
+/**
+ * Remember the content hash of media so later uploads can recognise it without downloading
+ */
+export async function recordMediaHashes(
+  productId: string,
+  entries: Array<Pick<MediaHash, "mediaId" | "hash">>
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  await db.$transaction(
+    entries.map(({ mediaId, hash }) =>
+      db.mediaHash.upsert({
+        where: { mediaId },
+        create: { mediaId, productId, hash },
+        update: { productId, hash },
+      })
+    )
+  );
+}
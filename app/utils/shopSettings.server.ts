@@ -0,0 +1,37 @@
+import db from "~/db.server";
+import type { FilenamePattern } from "~/types";
+import { DEFAULT_FILENAME_PATTERN } from "./fileParser";
+
+/**
+ * Load the saved filename pattern for a shop, falling back to the default
+ */
+export async function getShopFilenamePattern(shop: string): Promise<FilenamePattern> {
+  const record = await db.shopSettings.findUnique({ where: { shop } });
+
+  if (!record?.filenamePattern) {
+    return DEFAULT_FILENAME_PATTERN;
+  }
+
+  try {
+    return { ...DEFAULT_FILENAME_PATTERN, ...JSON.parse(record.filenamePattern) };
+  } catch (error) {
+    console.error(`Invalid saved filename pattern for ${shop}:`, error);
+    return DEFAULT_FILENAME_PATTERN;
+  }
+}
+
+/**
+ * Save the filename pattern for a shop
+ */
+export async function saveShopFilenamePattern(
+  shop: string,
+  pattern: FilenamePattern
+): Promise<void> {
+  const filenamePattern = JSON.stringify(pattern);
+
+  await db.shopSettings.upsert({
+    where: { shop },
+    create: { shop, filenamePattern },
+    update: { filenamePattern },
+  });
+}
@@ -0,0 +1,232 @@
+import { describe, expect, it } from "vitest";
+import { createProductMedia, queryProductsBySKUs, setVariantMedia } from "./shopifyMedia.server";
+
+interface Call {
+  operation: string;
+  variables: Record<string, unknown>;
+}
+
+/**
+ * Admin client answering variant searches from a SKU list. Searches that include a
+ * value from `failing` return a GraphQL error, like Shopify does for unparseable queries.
+ */
+function fakeAdmin(skus: string[], failing: string[] = [], media: Record<string, string[]> = {}) {
+  const calls: Call[] = [];
+
+  const admin = {
+    graphql: async (query: string, options?: { variables?: Record<string, unknown> }) => {
+      const operation = /query (\w+)/.exec(query)?.[1] ?? "";
+      const variables = options?.variables ?? {};
+      calls.push({ operation, variables });
+
+      if (operation === "GetVariantsByIdentifiers") {
+        const search = String(variables.query);
+        if (failing.some((value) => search.includes(value))) {
+          return Response.json({ errors: [{ message: "Invalid search query" }] });
+        }
+        const edges = skus
+          .filter((sku) => search.includes(`sku:"${sku.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`))
+          .map((sku) => ({
+            node: {
+              id: `gid://shopify/ProductVariant/${sku}`,
+              title: "Default",
+              sku,
+              product: { id: `gid://shopify/Product/${sku}` },
+            },
+          }));
+        return Response.json({ data: { productVariants: { edges } } });
+      }
+
+      const ids = variables.ids as string[];
+      return Response.json({
+        data: {
+          nodes: ids.map((id) => ({
+            id,
+            title: `Product ${id.split("/").pop()}`,
+            media: {
+              edges: (media[id] ?? []).map((mediaId) => ({ node: { id: mediaId } })),
+              pageInfo: { hasNextPage: false, endCursor: null },
+            },
+          })),
+        },
+      });
+    },
+  };
+
+  return { admin, calls };
+}
+
+describe("queryProductsBySKUs", () => {
+  it("quotes and escapes values in the search query", async () => {
+    const { admin, calls } = fakeAdmin(['12" TRAY', "A:B OR C"]);
+
+    const products = await queryProductsBySKUs(admin, ['12" TRAY', "A:B OR C"]);
+
+    expect(calls[0].variables.query).toBe('sku:"12\\" TRAY" OR sku:"A:B OR C"');
+    expect(Array.from(products.keys())).toEqual(['12" TRAY', "A:B OR C"]);
+  });
+
+  it("retries a failed batch value by value and reports the real error", async () => {
+    const { admin, calls } = fakeAdmin(["GOOD-1", "GOOD-2"], ["BROKEN"]);
+    const errors = new Map<string, string>();
+
+    const products = await queryProductsBySKUs(
+      admin,
+      ["GOOD-1", "BROKEN", "GOOD-2"],
+      { matchKey: "sku" },
+      undefined,
+      errors
+    );
+
+    expect(Array.from(products.keys()).sort()).toEqual(["GOOD-1", "GOOD-2"]);
+    expect(errors).toEqual(new Map([["BROKEN", "Failed to query products: Invalid search query"]]));
+    expect(calls.filter((call) => call.operation === "GetVariantsByIdentifiers")).toHaveLength(4);
+  });
+
+  it("loads current media for index matches whatever media count the index has", async () => {
+    const productId = "gid://shopify/Product/10";
+    const { admin, calls } = fakeAdmin([], [], { [productId]: ["gid://shopify/MediaImage/1"] });
+    const indexed = {
+      productId,
+      productTitle: "Old title",
+      variantId: "gid://shopify/ProductVariant/1",
+      variantTitle: "Default Title",
+      mediaCount: 0,
+    };
+    const resolveFromIndex = async () => new Map([["DRESS", indexed]]);
+
+    const products = await queryProductsBySKUs(admin, ["DRESS"], { matchKey: "sku" }, resolveFromIndex);
+
+    expect(products.get("DRESS")).toEqual({
+      id: productId,
+      title: "Product 10",
+      mediaIds: ["gid://shopify/MediaImage/1"],
+      variantId: "gid://shopify/ProductVariant/1",
+      variantTitle: "Default Title",
+    });
+    expect(calls.map((call) => call.operation)).toEqual(["GetProductsMedia"]);
+  });
+
+  it("reports index matches whose products fail to load instead of failing the lookup", async () => {
+    const operations: string[] = [];
+    const admin = {
+      graphql: async (query: string) => {
+        operations.push(/query (\w+)/.exec(query)?.[1] ?? "");
+        return Response.json({ errors: [{ message: "Internal error" }] });
+      },
+    };
+    const resolveFromIndex = async () =>
+      new Map([
+        [
+          "DRESS",
+          {
+            productId: "gid://shopify/Product/10",
+            productTitle: "Dress",
+            variantId: "gid://shopify/ProductVariant/1",
+            variantTitle: "Default Title",
+            mediaCount: 0,
+          },
+        ],
+      ]);
+    const errors = new Map<string, string>();
+
+    const products = await queryProductsBySKUs(admin, ["DRESS"], { matchKey: "sku" }, resolveFromIndex, errors);
+
+    expect(products.size).toBe(0);
+    expect(errors).toEqual(new Map([["DRESS", "Failed to query products: Internal error"]]));
+    expect(operations).toEqual(["GetProductsMedia"]);
+  });
+});
+
+describe("createProductMedia", () => {
+  it("matches media by alt text when Shopify returns an unexpected number", async () => {
+    const calls: Call[] = [];
+    const admin = {
+      graphql: async (query: string, options?: { variables?: Record<string, unknown> }) => {
+        const operation = /mutation (\w+)/.exec(query)?.[1] ?? "";
+        calls.push({ operation, variables: options?.variables ?? {} });
+        if (operation === "ProductDeleteMedia") {
+          return Response.json({ data: { productDeleteMedia: { deletedMediaIds: [], mediaUserErrors: [] } } });
+        }
+        return Response.json({
+          data: {
+            productCreateMedia: {
+              media: [
+                { id: "gid://shopify/MediaImage/2", alt: "Back" },
+                { id: "gid://shopify/MediaImage/9", alt: "Side" },
+              ],
+              mediaUserErrors: [],
+            },
+          },
+        });
+      },
+    };
+
+    const results = await createProductMedia(admin, "gid://shopify/Product/1", [
+      { resourceUrl: "https://example.com/front.jpg", altText: "Front" },
+      { resourceUrl: "https://example.com/back.jpg", altText: "Back" },
+      { resourceUrl: "https://example.com/side.jpg", altText: "Side" },
+      { resourceUrl: "https://example.com/side-2.jpg", altText: "Side" },
+    ]);
+
+    expect(results).toEqual([
+      { error: "Shopify did not return media that could be matched to this file" },
+      { mediaId: "gid://shopify/MediaImage/2" },
+      { error: "Shopify did not return media that could be matched to this file" },
+      { error: "Shopify did not return media that could be matched to this file" },
+    ]);
+    expect(calls[1]).toEqual({
+      operation: "ProductDeleteMedia",
+      variables: { productId: "gid://shopify/Product/1", mediaIds: ["gid://shopify/MediaImage/9"] },
+    });
+  });
+});
+
+describe("setVariantMedia", () => {
+  it("fails instead of appending when the variant's media can't be read", async () => {
+    const operations: string[] = [];
+    const admin = {
+      graphql: async (query: string) => {
+        operations.push(/(?:query|mutation) (\w+)/.exec(query)?.[1] ?? "");
+        return Response.json({ errors: [{ message: "Throttled" }] });
+      },
+    };
+
+    await expect(
+      setVariantMedia(admin, "gid://shopify/Product/1", "gid://shopify/ProductVariant/1", "gid://shopify/MediaImage/1")
+    ).rejects.toThrow("Failed to load variant media: Throttled");
+    expect(operations).toEqual(["GetVariantMedia"]);
+  });
+
+  it("re-attaches the previous image when the new one can't be set", async () => {
+    const calls: Call[] = [];
+    const admin = {
+      graphql: async (query: string, options?: { variables?: Record<string, unknown> }) => {
+        const operation = /(?:query|mutation) (\w+)/.exec(query)?.[1] ?? "";
+        const variables = options?.variables ?? {};
+        calls.push({ operation, variables });
+
+        if (operation === "GetVariantMedia") {
+          return Response.json({
+            data: { productVariant: { media: { edges: [{ node: { id: "gid://shopify/MediaImage/old" } }] } } },
+          });
+        }
+        if (operation === "ProductVariantDetachMedia") {
+          return Response.json({ data: { productVariantDetachMedia: { userErrors: [] } } });
+        }
+        const [{ mediaIds }] = variables.variantMedia as Array<{ mediaIds: string[] }>;
+        const userErrors = mediaIds[0].endsWith("/new") ? [{ message: "Media is not ready" }] : [];
+        return Response.json({ data: { productVariantAppendMedia: { userErrors } } });
+      },
+    };
+
+    await expect(
+      setVariantMedia(admin, "gid://shopify/Product/1", "gid://shopify/ProductVariant/1", "gid://shopify/MediaImage/new")
+    ).rejects.toThrow("Variant media error: Media is not ready");
+    expect(
+      calls
+        .filter((call) => call.operation === "ProductVariantAppendMedia")
+        .map((call) => (call.variables.variantMedia as Array<{ mediaIds: string[] }>)[0].mediaIds)
+    ).toEqual([["gid://shopify/MediaImage/new"], ["gid://shopify/MediaImage/old"]]);
+  });
+});
@@ -1,30 +1,364 @@
-import type { ParsedFileData, ProductData, StagedUploadTarget } from "~/types";
+import pLimit from "p-limit";
+import type {
+  CatalogMatch,
+  ParsedFileData,
+  ProductData,
+  StagedUploadTarget,
+  UploadSettings,
+} from "~/types";
+import { withRetry } from "./adminClient.server";
 
 interface AdminContext {
   graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<Response>;
 }
 
+type MatchOptions = Pick<UploadSettings, "matchKey"> &
+  Partial<Pick<UploadSettings, "matchMetafield">>;
+
+interface MediaPageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface ProductNode {
+  id: string;
+  title: string;
+  media: { edges: Array<{ node: { id: string } }>; pageInfo: MediaPageInfo };
+}
+
+interface MediaNode {
+  id: string;
+  alt: string | null;
+  mediaContentType: string;
+  image?: { url: string } | null;
+}
+
+export interface MediaProcessingState {
+  status: "READY" | "FAILED" | "PROCESSING";
+  imageUrl?: string;
+  error?: string;
+}
+
+// A product's media item as captured before an upload job, enough to put it back
+export interface MediaDetails {
+  id: string;
+  alt: string;
+  mediaContentType: string;
+  url?: string; // Source image, only available for images
+}
+
+interface ProductMatch {
+  productId: string;
+  variantId?: string;
+  variantTitle?: string;
+}
+
+interface VariantNode {
+  id: string;
+  title: string;
+  sku: string | null;
+  barcode: string | null;
+  product: ProductNode;
+}
+
+// Media processing is usually done within seconds; poll until then
+const MEDIA_READY_POLL_INTERVAL = 2000;
+const MEDIA_READY_TIMEOUT = 60000;
+
+// Values combined into one OR'd search query, and the page size that query asks for
+const LOOKUP_BATCH_SIZE = 25;
+const LOOKUP_PAGE_SIZE = 50;
+
+// Products loaded per nodes() query; media(first: 100) keeps each one near 100 cost points
+const MEDIA_LOOKUP_BATCH_SIZE = 8;
+
+// Lookup queries running at once; the admin client paces them against the cost budget
+const LOOKUP_CONCURRENCY = 4;
+
+// Number of files staged per stagedUploadsCreate call
+const STAGED_UPLOAD_BATCH_SIZE = 50;
+
+// Media nodes loaded per nodes() query when looking up original files
+const MEDIA_NODES_BATCH_SIZE = 100;
+
+// Page size when following a single product's media past the first page
+const MEDIA_PAGE_SIZE = 250;
+
+// productReorderMedia accepts at most this many moves per call
+const REORDER_MOVES_LIMIT = 250;
+
+// Reordering runs as a job on Shopify's side; wait for it before reporting the result
+const REORDER_JOB_POLL_INTERVAL = 1000;
+const REORDER_JOB_TIMEOUT = 60000;
+
+function toProductData(product: ProductNode): ProductData {
+  return {
+    id: product.id,
+    title: product.title,
+    mediaIds: product.media.edges.map((edge) => edge.node.id),
+  };
+}
+
 /**
- * Query products by SKU and return product data
+ * Query multiple products by their SKUs (or other configured match key).
+ * Values are combined into OR'd search queries and looked up in parallel batches.
+ * Values that could not be looked up are left out of the result, with the reason in `errors`.
  */
-export async function queryProductBySKU(
+export async function queryProductsBySKUs(
   admin: AdminContext,
-  sku: string
-): Promise<ProductData | null> {
+  skus: string[],
+  match: MatchOptions = { matchKey: "sku" },
+  resolveFromIndex?: (values: string[]) => Promise<Map<string, CatalogMatch>>,
+  errors: Map<string, string> = new Map()
+): Promise<Map<string, ProductData>> {
+  const uniqueSkus = Array.from(new Set(skus));
+  const limit = pLimit(LOOKUP_CONCURRENCY);
+
+  if (resolveFromIndex) {
+    const productMap = await resolveIndexedProducts(admin, uniqueSkus, await resolveFromIndex(uniqueSkus), errors);
+
+    // Products created since the index was last updated are looked up live
+    const notIndexed = uniqueSkus.filter((sku) => !productMap.has(sku) && !errors.has(sku));
+    if (notIndexed.length > 0) {
+      const liveMap = await queryProductsBySKUs(admin, notIndexed, match, undefined, errors);
+      liveMap.forEach((product, sku) => productMap.set(sku, product));
+    }
+    return productMap;
+  }
+
+  // Step 1: resolve each value to a product (and variant) ID
+  const matches = new Map<string, ProductMatch>();
+  const retrySingly: string[] = [];
+  await Promise.all(
+    chunk(uniqueSkus, LOOKUP_BATCH_SIZE).map((batch) =>
+      limit(async () => {
+        try {
+          const result = await findBatchMatches(admin, batch, match);
+          result.matches.forEach((found, sku) => matches.set(sku, found));
+          retrySingly.push(...result.truncated);
+        } catch (error) {
+          // One bad value fails the whole search, so find out which by trying them alone
+          console.error(`Failed to query products for ${match.matchKey} batch:`, error);
+          retrySingly.push(...batch);
+        }
+      })
+    )
+  );
+
+  // Batches that failed or whose results were cut off by the page size are looked up one by one
+  await Promise.all(
+    retrySingly.map((sku) =>
+      limit(async () => {
+        const found = await findBatchMatches(admin, [sku], match).catch((error) => {
+          console.error(`Failed to query product for ${match.matchKey} ${sku}:`, error);
+          errors.set(sku, error instanceof Error ? error.message : "Unknown error");
+          return null;
+        });
+        const single = found?.matches.get(sku);
+        if (single) matches.set(sku, single);
+      })
+    )
+  );
+
+  // Step 2: load title and media once per product, however many values point at it
+  const productIds = Array.from(new Set(Array.from(matches.values(), (m) => m.productId)));
+  const products = new Map<string, ProductNode>();
+  await Promise.all(
+    chunk(productIds, MEDIA_LOOKUP_BATCH_SIZE).map((ids) =>
+      limit(async () => {
+        try {
+          for (const product of await queryProductNodes(admin, ids)) {
+            products.set(product.id, product);
+          }
+        } catch (error) {
+          console.error("Failed to load product media:", error);
+          matches.forEach((found, sku) => {
+            if (ids.includes(found.productId)) {
+              errors.set(sku, error instanceof Error ? error.message : "Unknown error");
+            }
+          });
+        }
+      })
+    )
+  );
+
+  const productMap = new Map<string, ProductData>();
+  for (const sku of uniqueSkus) {
+    const found = matches.get(sku);
+    const product = found && products.get(found.productId);
+    if (product) {
+      productMap.set(sku, {
+        ...toProductData(product),
+        variantId: found.variantId,
+        variantTitle: found.variantTitle,
+      });
+    }
+  }
+
+  return productMap;
+}
+
+/**
+ * Build product data for values already resolved by the catalog index.
+ * The index only says which product a value belongs to; its media count can be
+ * out of date, so current media is always loaded from Shopify. Products that
+ * no longer exist are left out and looked up live; values whose products could
+ * not be loaded are left out with the reason in `errors`.
+ */
+async function resolveIndexedProducts(
+  admin: AdminContext,
+  values: string[],
+  matches: Map<string, CatalogMatch>,
+  errors: Map<string, string>
+): Promise<Map<string, ProductData>> {
+  const limit = pLimit(LOOKUP_CONCURRENCY);
+  const productIds = Array.from(new Set(Array.from(matches.values(), (found) => found.productId)));
+
+  const products = new Map<string, ProductNode>();
+  await Promise.all(
+    chunk(productIds, MEDIA_LOOKUP_BATCH_SIZE).map((ids) =>
+      limit(async () => {
+        try {
+          for (const product of await queryProductNodes(admin, ids)) {
+            products.set(product.id, product);
+          }
+        } catch (error) {
+          console.error("Failed to load product media:", error);
+          matches.forEach((found, value) => {
+            if (ids.includes(found.productId)) {
+              errors.set(value, error instanceof Error ? error.message : "Unknown error");
+            }
+          });
+        }
+      })
+    )
+  );
+
+  const productMap = new Map<string, ProductData>();
+  for (const value of values) {
+    const found = matches.get(value);
+    const product = found && products.get(found.productId);
+    if (!product) continue;
+    productMap.set(value, {
+      ...toProductData(product),
+      variantId: found.variantId,
+      variantTitle: found.variantTitle,
+    });
+  }
+
+  return productMap;
+}
+
+/**
+ * Quote a value for a search query so spaces, colons and words like OR match literally
+ */
+function searchTerm(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Resolve a batch of values with one search query.
+ * Only exact matches count, since a result can't be attributed to a value otherwise.
+ */
+async function findBatchMatches(
+  admin: AdminContext,
+  values: string[],
+  match: MatchOptions
+): Promise<{ matches: Map<string, ProductMatch>; truncated: string[] }> {
+  const matches = new Map<string, ProductMatch>();
+
+  if (match.matchKey === "productId") {
+    const ids = values.map((value) => (value.startsWith("gid://") ? value : `gid://shopify/Product/${value}`));
+    values.forEach((value, index) => {
+      if (/^gid:\/\/shopify\/Product\/\d+$/i.test(ids[index])) {
+        matches.set(value, { productId: ids[index] });
+      }
+    });
+    // Existence is checked when the products are loaded
+    return { matches, truncated: [] };
+  }
+
+  if (match.matchKey === "sku" || match.matchKey === "barcode") {
+    const field = match.matchKey;
+    const response = await admin.graphql(
+      `#graphql
+      query GetVariantsByIdentifiers($query: String!, $first: Int!) {
+        productVariants(first: $first, query: $query) {
+          edges {
+            node {
+              id
+              title
+              sku
+              barcode
+              product {
+                id
+              }
+            }
+          }
+        }
+      }`,
+      {
+        variables: {
+          query: values.map((value) => `${field}:${searchTerm(value)}`).join(" OR "),
+          first: LOOKUP_PAGE_SIZE,
+        },
+      }
+    );
+
+    const data = await response.json();
+    if (data.errors) {
+      throw new Error(`Failed to query products: ${data.errors[0]?.message}`);
+    }
+
+    const edges: Array<{ node: Omit<VariantNode, "product"> & { product: { id: string } } }> =
+      data.data?.productVariants?.edges || [];
+    const byValue = new Map(values.map((value) => [value.toUpperCase(), value]));
+    for (const { node } of edges) {
+      const value = byValue.get(node[field]?.toUpperCase() ?? "");
+      if (value && !matches.has(value)) {
+        matches.set(value, { productId: node.product.id, variantId: node.id, variantTitle: node.title });
+      }
+    }
+
+    return {
+      matches,
+      truncated: edges.length >= LOOKUP_PAGE_SIZE ? values.filter((value) => !matches.has(value)) : [],
+    };
+  }
+
+  let query: string;
+  let readValue: (node: { handle: string; metafield: { value: string } | null }) => string | undefined;
+  if (match.matchKey === "handle") {
+    query = values.map((value) => `handle:${searchTerm(value.toLowerCase())}`).join(" OR ");
+    readValue = (node) => node.handle;
+  } else {
+    const { namespace, key } = match.matchMetafield ?? { namespace: "", key: "" };
+    if (!namespace || !key) {
+      throw new Error("Metafield namespace and key are required");
+    }
+    query = values.map((value) => `metafields.${namespace}.${key}:${searchTerm(value)}`).join(" OR ");
+    readValue = (node) => node.metafield?.value;
+  }
+
+  const { namespace = "", key = "" } = match.matchMetafield ?? {};
   const response = await admin.graphql(
     `#graphql
-    query GetProductBySKU($query: String!) {
-      products(first: 1, query: $query) {
+    query GetProductsBySearch($query: String!, $first: Int!, $namespace: String!, $key: String!, $withMetafield: Boolean!) {
+      products(first: $first, query: $query) {
         edges {
           node {
             id
-            title
-            media(first: 100) {
-              edges {
-                node {
-                  id
-                }
-              }
+            handle
+            metafield(namespace: $namespace, key: $key) @include(if: $withMetafield) {
+              value
             }
           }
         }
@@ -32,114 +366,286 @@ export async function queryProductBySKU(
     }`,
     {
       variables: {
-        query: `sku:${sku}`,
+        query,
+        first: LOOKUP_PAGE_SIZE,
+        namespace,
+        key,
+        withMetafield: match.matchKey === "metafield",
       },
     }
   );
 
   const data = await response.json();
+  if (data.errors) {
+    throw new Error(`Failed to query products: ${data.errors[0]?.message}`);
+  }
+
+  const edges: Array<{ node: { id: string; handle: string; metafield: { value: string } | null } }> =
+    data.data?.products?.edges || [];
+  const byValue = new Map(values.map((value) => [value.toLowerCase(), value]));
+  for (const { node } of edges) {
+    const value = byValue.get(readValue(node)?.toLowerCase() ?? "");
+    if (value && !matches.has(value)) {
+      matches.set(value, { productId: node.id });
+    }
+  }
+
+  return {
+    matches,
+    truncated: edges.length >= LOOKUP_PAGE_SIZE ? values.filter((value) => !matches.has(value)) : [],
+  };
+}
+
+/**
+ * Load title and media for several products in one query
+ */
+async function queryProductNodes(admin: AdminContext, ids: string[]): Promise<ProductNode[]> {
+  const response = await admin.graphql(
+    `#graphql
+    query GetProductsMedia($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        ... on Product {
+          id
+          title
+          media(first: 100) {
+            edges {
+              node {
+                id
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }
+    }`,
+    {
+      variables: { ids },
+    }
+  );
 
+  const data = await response.json();
   if (data.errors) {
-    console.error("GraphQL errors:", data.errors);
-    throw new Error(`Failed to query product: ${data.errors[0]?.message}`);
+    throw new Error(`Failed to query products: ${data.errors[0]?.message}`);
   }
 
-  const products = data.data?.products?.edges;
-  if (!products || products.length === 0) {
-    return null;
+  const nodes: Array<ProductNode | null> = data.data?.nodes || [];
+  const products = nodes.filter((node): node is ProductNode => !!node?.id);
+
+  // Large galleries continue on further pages
+  for (const product of products) {
+    if (product.media.pageInfo.hasNextPage) {
+      const rest = await queryProductMedia(admin, product.id, product.media.pageInfo.endCursor);
+      product.media.edges.push(...rest.map((media) => ({ node: { id: media.id } })));
+    }
   }
 
-  const product = products[0].node;
-  const mediaIds = product.media.edges.map((edge: { node: { id: string } }) => edge.node.id);
+  return products;
+}
 
+function toMediaDetails(node: MediaNode): MediaDetails {
   return {
-    id: product.id,
-    title: product.title,
-    mediaIds,
+    id: node.id,
+    alt: node.alt ?? "",
+    mediaContentType: node.mediaContentType,
+    url: node.image?.url,
   };
 }
 
 /**
- * Query multiple products by their SKUs
+ * Load a product's media in order, following cursor pages to the end.
+ * Pass a cursor to continue after a page that was already loaded.
  */
-export async function queryProductsBySKUs(
+export async function queryProductMedia(
   admin: AdminContext,
-  skus: string[]
-): Promise<Map<string, ProductData>> {
-  const productMap = new Map<string, ProductData>();
+  productId: string,
+  after: string | null = null
+): Promise<MediaDetails[]> {
+  const media: MediaDetails[] = [];
+  let cursor = after;
 
-  // Query products in batches to avoid rate limits
-  for (const sku of skus) {
-    try {
-      const product = await queryProductBySKU(admin, sku);
-      if (product) {
-        productMap.set(sku, product);
+  do {
+    const response = await admin.graphql(
+      `#graphql
+      query GetProductMediaPage($id: ID!, $first: Int!, $after: String) {
+        product(id: $id) {
+          media(first: $first, after: $after) {
+            edges {
+              node {
+                id
+                alt
+                mediaContentType
+                ... on MediaImage {
+                  image {
+                    url
+                  }
+                }
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }`,
+      {
+        variables: { id: productId, first: MEDIA_PAGE_SIZE, after: cursor },
       }
-    } catch (error) {
-      console.error(`Failed to query product for SKU ${sku}:`, error);
+    );
+
+    const data = await response.json();
+    if (data.errors) {
+      throw new Error(`Failed to query product media: ${data.errors[0]?.message}`);
     }
-  }
 
-  return productMap;
+    const page: { edges: Array<{ node: MediaNode }>; pageInfo: MediaPageInfo } | undefined =
+      data.data?.product?.media;
+    if (!page) break;
+
+    media.push(...page.edges.map(({ node }) => toMediaDetails(node)));
+    cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (cursor);
+
+  return media;
 }
 
 /**
- * Create a staged upload target for a file
+ * Fetch catalog values that could be near matches for an unmatched SKU.
+ * Searches by prefix and by the zero-stripped form, since padding and typos
+ * towards the end of a SKU are the common causes of misses.
  */
-export async function createStagedUpload(
+export async function querySkuCandidates(
   admin: AdminContext,
-  file: ParsedFileData
-): Promise<StagedUploadTarget> {
+  sku: string,
+  match: MatchOptions = { matchKey: "sku" }
+): Promise<string[]> {
+  if (match.matchKey !== "sku" && match.matchKey !== "barcode" && match.matchKey !== "handle") {
+    return [];
+  }
+
+  const alphanumeric = sku.replace(/[^A-Za-z0-9]/g, "");
+  const prefix = alphanumeric.slice(0, 3);
+  if (!prefix) return [];
+
+  const field = match.matchKey;
+  const value = field === "handle" ? prefix.toLowerCase() : prefix;
+  const unpadded = sku.replace(/(^|[^0-9])0+(?=\d)/g, "$1");
+  const query = [`${field}:${value}*`, ...(unpadded !== sku ? [`${field}:${searchTerm(unpadded)}`] : [])].join(" OR ");
+
+  if (field === "handle") {
+    const response = await admin.graphql(
+      `#graphql
+      query GetHandleCandidates($query: String!) {
+        products(first: 100, query: $query) {
+          edges {
+            node {
+              handle
+            }
+          }
+        }
+      }`,
+      {
+        variables: { query },
+      }
+    );
+
+    const data = await response.json();
+    const edges: Array<{ node: { handle: string } }> = data.data?.products?.edges || [];
+    return edges.map((edge) => edge.node.handle);
+  }
+
   const response = await admin.graphql(
     `#graphql
-    mutation StagedUploadsCreate($input: [StagedUploadInput!]!) {
-      stagedUploadsCreate(input: $input) {
-        stagedTargets {
-          url
-          resourceUrl
-          parameters {
-            name
-            value
+    query GetVariantCandidates($query: String!) {
+      productVariants(first: 100, query: $query) {
+        edges {
+          node {
+            sku
+            barcode
           }
         }
-        userErrors {
-          field
-          message
-        }
       }
     }`,
     {
-      variables: {
-        input: [
-          {
+      variables: { query },
+    }
+  );
+
+  const data = await response.json();
+  const edges: Array<{ node: { sku: string | null; barcode: string | null } }> =
+    data.data?.productVariants?.edges || [];
+
+  return edges
+    .map((edge) => edge.node[field])
+    .filter((candidate): candidate is string => !!candidate);
+}
+
+/**
+ * Create staged upload targets for many files, in batches.
+ * Targets are returned in the same order as the files.
+ */
+export async function createStagedUploads(
+  admin: AdminContext,
+  files: Array<Pick<ParsedFileData, "originalFilename" | "fileType" | "fileSize">>
+): Promise<StagedUploadTarget[]> {
+  const targets: StagedUploadTarget[] = [];
+
+  for (let i = 0; i < files.length; i += STAGED_UPLOAD_BATCH_SIZE) {
+    const batch = files.slice(i, i + STAGED_UPLOAD_BATCH_SIZE);
+    const response = await admin.graphql(
+      `#graphql
+      mutation StagedUploadsCreate($input: [StagedUploadInput!]!) {
+        stagedUploadsCreate(input: $input) {
+          stagedTargets {
+            url
+            resourceUrl
+            parameters {
+              name
+              value
+            }
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }`,
+      {
+        variables: {
+          input: batch.map((file) => ({
             filename: file.originalFilename,
             mimeType: file.fileType,
             resource: "IMAGE",
             fileSize: String(file.fileSize),
             httpMethod: "POST",
-          },
-        ],
-      },
-    }
-  );
+          })),
+        },
+      }
+    );
 
-  const data = await response.json();
+    const data = await response.json();
 
-  if (data.errors) {
-    throw new Error(`Failed to create staged upload: ${data.errors[0]?.message}`);
-  }
+    if (data.errors) {
+      throw new Error(`Failed to create staged upload: ${data.errors[0]?.message}`);
+    }
 
-  const stagedUploads = data.data?.stagedUploadsCreate;
-  if (stagedUploads?.userErrors?.length > 0) {
-    throw new Error(`Staged upload error: ${stagedUploads.userErrors[0].message}`);
-  }
+    const stagedUploads = data.data?.stagedUploadsCreate;
+    if (stagedUploads?.userErrors?.length > 0) {
+      throw new Error(`Staged upload error: ${stagedUploads.userErrors[0].message}`);
+    }
+
+    const batchTargets: StagedUploadTarget[] = stagedUploads?.stagedTargets ?? [];
+    if (batchTargets.length !== batch.length) {
+      throw new Error("No staged upload target returned");
+    }
 
-  const target = stagedUploads?.stagedTargets?.[0];
-  if (!target) {
-    throw new Error("No staged upload target returned");
+    targets.push(...batchTargets);
   }
 
-  return target;
+  return targets;
 }
 
 /**
@@ -160,25 +666,33 @@ export async function uploadToStagedTarget(
   const blob = new Blob([file.fileData], { type: file.fileType });
   formData.append("file", blob, file.originalFilename);
 
-  const response = await fetch(target.url, {
-    method: "POST",
-    body: formData,
-  });
+  await withRetry(async () => {
+    const response = await fetch(target.url, {
+      method: "POST",
+      body: formData,
+    });
 
-  if (!response.ok) {
-    throw new Error(`Failed to upload file: ${response.status} ${response.statusText}`);
-  }
+    if (!response.ok) {
+      // The status lets withRetry tell 5xx and 429 apart from permanent failures
+      throw Object.assign(
+        new Error(`Failed to upload file: ${response.status} ${response.statusText}`),
+        { response: { code: response.status } }
+      );
+    }
+  });
 }
 
 /**
- * Create product media from an uploaded file
+ * Attach uploaded files to a product in one call, keeping the given order.
+ * Errors Shopify reports for individual media are returned for those entries only.
+ * If Shopify returns a different number of media than it accepted, they are matched
+ * by alt text and any it can't attribute to a file are deleted again.
  */
 export async function createProductMedia(
   admin: AdminContext,
   productId: string,
-  resourceUrl: string,
-  altText?: string
-): Promise<string> {
+  media: Array<{ resourceUrl: string; altText?: string }>
+): Promise<Array<{ mediaId?: string; error?: string }>> {
   const response = await admin.graphql(
     `#graphql
     mutation ProductCreateMedia($productId: ID!, $media: [CreateMediaInput!]!) {
@@ -201,13 +715,11 @@ export async function createProductMedia(
     {
       variables: {
         productId,
-        media: [
-          {
-            originalSource: resourceUrl,
-            alt: altText || "",
-            mediaContentType: "IMAGE",
-          },
-        ],
+        media: media.map((item) => ({
+          originalSource: item.resourceUrl,
+          alt: item.altText || "",
+          mediaContentType: "IMAGE",
+        })),
       },
     }
   );
@@ -219,16 +731,64 @@ export async function createProductMedia(
   }
 
   const result = data.data?.productCreateMedia;
-  if (result?.mediaUserErrors?.length > 0) {
-    throw new Error(`Media creation error: ${result.mediaUserErrors[0].message}`);
+  const userErrors: Array<{ message: string; field: string[] | null }> = result?.mediaUserErrors ?? [];
+
+  // Field paths look like ["media", "2", "originalSource"]; errors without an index affect the whole call
+  const failed = new Map<number, string>();
+  for (const userError of userErrors) {
+    const index = userError.field?.[0] === "media" ? Number(userError.field[1]) : NaN;
+    if (Number.isNaN(index)) {
+      throw new Error(`Media creation error: ${userError.message}`);
+    }
+    failed.set(index, `Media creation error: ${userError.message}`);
+  }
+
+  const created: Array<{ id: string; alt: string | null }> = result?.media ?? [];
+  const accepted = media.map((_, index) => index).filter((index) => !failed.has(index));
+
+  // When some entries are rejected Shopify may create none of the others, so retry just those
+  if (failed.size > 0 && created.length === 0 && accepted.length > 0) {
+    const retried = await createProductMedia(
+      admin,
+      productId,
+      accepted.map((index) => media[index])
+    );
+    return media.map((_, index) =>
+      failed.has(index) ? { error: failed.get(index) } : retried[accepted.indexOf(index)]
+    );
   }
 
-  const mediaId = result?.media?.[0]?.id;
-  if (!mediaId) {
-    throw new Error("No media ID returned");
+  if (created.length === accepted.length) {
+    return media.map((_, index) =>
+      failed.has(index) ? { error: failed.get(index) } : { mediaId: created[accepted.indexOf(index)].id }
+    );
+  }
+
+  // Order can't be trusted once counts differ; only an alt text unique to one file identifies it
+  const matched = new Map<number, string>();
+  const orphans: string[] = [];
+  for (const item of created) {
+    const candidates = accepted.filter((index) => (media[index].altText || "") === (item.alt ?? ""));
+    if (candidates.length === 1 && !matched.has(candidates[0])) {
+      matched.set(candidates[0], item.id);
+    } else {
+      orphans.push(item.id);
+    }
+  }
+
+  if (orphans.length > 0) {
+    try {
+      await deleteProductMedia(admin, productId, orphans);
+    } catch (error) {
+      console.error(`Failed to remove unmatched media from ${productId}:`, error);
+    }
   }
 
-  return mediaId;
+  return media.map((_, index) => {
+    if (failed.has(index)) return { error: failed.get(index) };
+    const mediaId = matched.get(index);
+    return mediaId ? { mediaId } : { error: "Shopify did not return media that could be matched to this file" };
+  });
 }
 
 /**
@@ -274,57 +834,196 @@ export async function deleteProductMedia(
 }
 
 /**
- * Reorder product media to move new images to the front (for prepend strategy)
+ * Load every product's media in order, with alt text and image source URLs
  */
-export async function reorderProductMedia(
+export async function getProductMediaDetails(
+  admin: AdminContext,
+  productIds: string[]
+): Promise<Map<string, MediaDetails[]>> {
+  const limit = pLimit(LOOKUP_CONCURRENCY);
+  const details = new Map<string, MediaDetails[]>();
+
+  await Promise.all(
+    chunk(productIds, MEDIA_LOOKUP_BATCH_SIZE).map((ids) =>
+      limit(async () => {
+        const response = await admin.graphql(
+          `#graphql
+          query GetProductsMediaDetails($ids: [ID!]!) {
+            nodes(ids: $ids) {
+              ... on Product {
+                id
+                media(first: 100) {
+                  edges {
+                    node {
+                      id
+                      alt
+                      mediaContentType
+                      ... on MediaImage {
+                        image {
+                          url
+                        }
+                      }
+                    }
+                  }
+                  pageInfo {
+                    hasNextPage
+                    endCursor
+                  }
+                }
+              }
+            }
+          }`,
+          {
+            variables: { ids },
+          }
+        );
+
+        const data = await response.json();
+        if (data.errors) {
+          throw new Error(`Failed to query product media: ${data.errors[0]?.message}`);
+        }
+
+        const nodes: Array<{
+          id?: string;
+          media: { edges: Array<{ node: MediaNode }>; pageInfo: MediaPageInfo };
+        } | null> = data.data?.nodes || [];
+
+        for (const node of nodes) {
+          if (!node?.id) continue;
+          const media = node.media.edges.map(({ node: item }) => toMediaDetails(item));
+          if (node.media.pageInfo.hasNextPage) {
+            media.push(...(await queryProductMedia(admin, node.id, node.media.pageInfo.endCursor)));
+          }
+          details.set(node.id, media);
+        }
+      })
+    )
+  );
+
+  return details;
+}
+
+/**
+ * Original upload of each image, as Shopify stored it before any resizing
+ */
+export async function getMediaOriginalSources(
+  admin: AdminContext,
+  mediaIds: string[]
+): Promise<Map<string, { url: string; fileSize: number | null }>> {
+  const sources = new Map<string, { url: string; fileSize: number | null }>();
+
+  for (const ids of chunk(mediaIds, MEDIA_NODES_BATCH_SIZE)) {
+    const response = await admin.graphql(
+      `#graphql
+      query GetMediaOriginalSources($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on MediaImage {
+            id
+            originalSource {
+              url
+              fileSize
+            }
+          }
+        }
+      }`,
+      {
+        variables: { ids },
+      }
+    );
+
+    const data = await response.json();
+    if (data.errors) {
+      throw new Error(`Failed to query original media: ${data.errors[0]?.message}`);
+    }
+
+    const nodes: Array<{
+      id?: string;
+      originalSource?: { url: string | null; fileSize: number | null } | null;
+    } | null> = data.data?.nodes || [];
+
+    for (const node of nodes) {
+      if (node?.id && node.originalSource?.url) {
+        sources.set(node.id, { url: node.originalSource.url, fileSize: node.originalSource.fileSize });
+      }
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Set the alt text of existing product media
+ */
+export async function updateProductMediaAlt(
   admin: AdminContext,
   productId: string,
-  newImagesCount: number
+  media: Array<{ id: string; alt: string }>
 ): Promise<void> {
-  // First, get all current media for the product
+  if (media.length === 0) return;
+
   const response = await admin.graphql(
     `#graphql
-    query GetProductMedia($id: ID!) {
-      product(id: $id) {
-        media(first: 100) {
-          edges {
-            node {
-              id
-            }
-          }
+    mutation ProductUpdateMedia($productId: ID!, $media: [UpdateMediaInput!]!) {
+      productUpdateMedia(productId: $productId, media: $media) {
+        media {
+          id
+        }
+        mediaUserErrors {
+          code
+          message
+          field
         }
       }
     }`,
     {
-      variables: { id: productId },
+      variables: {
+        productId,
+        media: media.map((item) => ({ id: item.id, alt: item.alt })),
+      },
     }
   );
 
   const data = await response.json();
-  const mediaEdges = data.data?.product?.media?.edges || [];
-  const allMediaIds = mediaEdges.map((edge: { node: { id: string } }) => edge.node.id);
 
-  if (allMediaIds.length <= newImagesCount) {
-    return; // No reordering needed
+  if (data.errors) {
+    throw new Error(`Failed to update media: ${data.errors[0]?.message}`);
   }
 
-  // The new images are at the end, we want them at the beginning
-  // Create moves: new images move to positions 0 to (newImagesCount - 1)
-  const moves = [];
-  for (let i = 0; i < newImagesCount; i++) {
-    const mediaId = allMediaIds[allMediaIds.length - newImagesCount + i];
-    moves.push({
-      id: mediaId,
-      newPosition: String(i),
-    });
+  const result = data.data?.productUpdateMedia;
+  if (result?.mediaUserErrors?.length > 0) {
+    throw new Error(`Media update error: ${result.mediaUserErrors[0].message}`);
+  }
+}
+
+/**
+ * Move media to new positions on a product, waiting for each reorder job to finish.
+ * Moves are applied in order, in batches of the most Shopify accepts per call.
+ */
+export async function moveProductMedia(
+  admin: AdminContext,
+  productId: string,
+  moves: Array<{ id: string; newPosition: string }>
+): Promise<void> {
+  for (const batch of chunk(moves, REORDER_MOVES_LIMIT)) {
+    const jobId = await startMediaReorder(admin, productId, batch);
+    if (jobId) {
+      await waitForJob(admin, jobId, REORDER_JOB_TIMEOUT);
+    }
   }
+}
 
+async function startMediaReorder(
+  admin: AdminContext,
+  productId: string,
+  moves: Array<{ id: string; newPosition: string }>
+): Promise<string | undefined> {
   const reorderResponse = await admin.graphql(
     `#graphql
     mutation ProductReorderMedia($productId: ID!, $moves: [MoveInput!]!) {
       productReorderMedia(productId: $productId, moves: $moves) {
         job {
           id
+          done
         }
         mediaUserErrors {
           code
@@ -351,4 +1050,231 @@ export async function reorderProductMedia(
   if (reorderResult?.mediaUserErrors?.length > 0) {
     throw new Error(`Media reorder error: ${reorderResult.mediaUserErrors[0].message}`);
   }
+
+  const job: { id: string; done: boolean } | null = reorderResult?.job ?? null;
+  return job && !job.done ? job.id : undefined;
+}
+
+/**
+ * Poll an asynchronous Shopify job until it reports done
+ */
+async function waitForJob(admin: AdminContext, jobId: string, timeout: number): Promise<void> {
+  const deadline = Date.now() + timeout;
+
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, REORDER_JOB_POLL_INTERVAL));
+
+    const response = await admin.graphql(
+      `#graphql
+      query GetJob($id: ID!) {
+        job(id: $id) {
+          id
+          done
+        }
+      }`,
+      {
+        variables: { id: jobId },
+      }
+    );
+
+    const data = await response.json();
+    if (data.errors) {
+      throw new Error(`Failed to check reorder job: ${data.errors[0]?.message}`);
+    }
+
+    if (data.data?.job?.done) return;
+    if (Date.now() >= deadline) {
+      throw new Error("Media reorder did not finish in time");
+    }
+  }
+}
+
+/**
+ * Poll media nodes until each one is READY or FAILED, or the timeout passes.
+ * Media still processing at the deadline is reported with its last status.
+ */
+export async function waitForMediaProcessing(
+  admin: AdminContext,
+  mediaIds: string[],
+  timeoutMs = MEDIA_READY_TIMEOUT
+): Promise<Map<string, MediaProcessingState>> {
+  const states = new Map<string, MediaProcessingState>();
+  const deadline = Date.now() + timeoutMs;
+  let pending = mediaIds;
+
+  for (;;) {
+    const response = await admin.graphql(
+      `#graphql
+      query GetMediaStatus($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on MediaImage {
+            id
+            status
+            mediaErrors {
+              code
+              message
+            }
+            image {
+              url
+            }
+          }
+        }
+      }`,
+      {
+        variables: { ids: pending },
+      }
+    );
+
+    const data = await response.json();
+    if (data.errors) {
+      throw new Error(`Failed to query media status: ${data.errors[0]?.message}`);
+    }
+
+    const nodes: Array<{
+      id: string;
+      status: string;
+      mediaErrors: Array<{ code: string; message: string }>;
+      image: { url: string } | null;
+    } | null> = data.data?.nodes || [];
+
+    for (const node of nodes) {
+      if (!node?.id) continue;
+      states.set(node.id, {
+        status: node.status === "READY" || node.status === "FAILED" ? node.status : "PROCESSING",
+        imageUrl: node.image?.url,
+        error: node.mediaErrors?.map((e) => e.message).join("; ") || undefined,
+      });
+    }
+
+    pending = pending.filter((id) => states.get(id)?.status === "PROCESSING" || !states.has(id));
+    if (pending.length === 0 || Date.now() >= deadline) {
+      return states;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, MEDIA_READY_POLL_INTERVAL));
+  }
+}
+
+/**
+ * Set a product's media as the image of one of its variants.
+ * A variant holds a single image, so any existing one is detached first
+ * and attached again if the new one can't be set.
+ */
+export async function setVariantMedia(
+  admin: AdminContext,
+  productId: string,
+  variantId: string,
+  mediaId: string
+): Promise<void> {
+  const response = await admin.graphql(
+    `#graphql
+    query GetVariantMedia($id: ID!) {
+      productVariant(id: $id) {
+        media(first: 1) {
+          edges {
+            node {
+              id
+            }
+          }
+        }
+      }
+    }`,
+    {
+      variables: { id: variantId },
+    }
+  );
+
+  const data = await response.json();
+  if (data.errors) {
+    throw new Error(`Failed to load variant media: ${data.errors[0]?.message}`);
+  }
+  if (!data.data?.productVariant) {
+    throw new Error("Variant not found");
+  }
+
+  const existingMediaId: string | undefined =
+    data.data.productVariant.media?.edges?.[0]?.node?.id;
+
+  if (existingMediaId === mediaId) {
+    return;
+  }
+
+  if (existingMediaId) {
+    const detachResponse = await admin.graphql(
+      `#graphql
+      mutation ProductVariantDetachMedia($productId: ID!, $variantMedia: [ProductVariantDetachMediaInput!]!) {
+        productVariantDetachMedia(productId: $productId, variantMedia: $variantMedia) {
+          userErrors {
+            code
+            message
+            field
+          }
+        }
+      }`,
+      {
+        variables: {
+          productId,
+          variantMedia: [{ variantId, mediaIds: [existingMediaId] }],
+        },
+      }
+    );
+
+    const detachData = await detachResponse.json();
+    if (detachData.errors) {
+      throw new Error(`Failed to detach variant media: ${detachData.errors[0]?.message}`);
+    }
+
+    const detachResult = detachData.data?.productVariantDetachMedia;
+    if (detachResult?.userErrors?.length > 0) {
+      throw new Error(`Variant media detach error: ${detachResult.userErrors[0].message}`);
+    }
+  }
+
+  try {
+    await appendVariantMedia(admin, productId, variantId, mediaId);
+  } catch (error) {
+    if (existingMediaId) {
+      await appendVariantMedia(admin, productId, variantId, existingMediaId).catch((restoreError) => {
+        console.error(`Failed to re-attach the previous image of variant ${variantId}:`, restoreError);
+      });
+    }
+    throw error;
+  }
+}
+
+async function appendVariantMedia(
+  admin: AdminContext,
+  productId: string,
+  variantId: string,
+  mediaId: string
+): Promise<void> {
+  const appendResponse = await admin.graphql(
+    `#graphql
+    mutation ProductVariantAppendMedia($productId: ID!, $variantMedia: [ProductVariantAppendMediaInput!]!) {
+      productVariantAppendMedia(productId: $productId, variantMedia: $variantMedia) {
+        userErrors {
+          code
+          message
+          field
+        }
+      }
+    }`,
+    {
+      variables: {
+        productId,
+        variantMedia: [{ variantId, mediaIds: [mediaId] }],
+      },
+    }
+  );
+
+  const appendData = await appendResponse.json();
+
+  if (appendData.errors) {
+    throw new Error(`Failed to set variant media: ${appendData.errors[0]?.message}`);
+  }
+
+  const appendResult = appendData.data?.productVariantAppendMedia;
+  if (appendResult?.userErrors?.length > 0) {
+    throw new Error(`Variant media error: ${appendResult.userErrors[0].message}`);
+  }
 }
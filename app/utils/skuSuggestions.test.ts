@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { editDistance, normalizeSku, rankSkuSuggestions } from "./skuSuggestions";
+
+describe("normalizeSku", () => {
+  it("ignores case, separators and zero-padding", () => {
+    expect(normalizeSku("sku_007")).toBe("SKU7");
+    expect(normalizeSku("SKU-7")).toBe("SKU7");
+    expect(normalizeSku("A-0100-b")).toBe("A100B");
+  });
+
+  it("keeps zeros that are the whole number", () => {
+    expect(normalizeSku("ITEM-0")).toBe("ITEM0");
+  });
+});
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("KITTEN", "SITTING")).toBe(3);
+    expect(editDistance("", "ABC")).toBe(3);
+    expect(editDistance("ABC", "ABC")).toBe(0);
+  });
+});
+
+describe("rankSkuSuggestions", () => {
+  it("ranks normalised matches before typos", () => {
+    const suggestions = rankSkuSuggestions("dress-07", ["DRESS-08", "DRESS_7", "SHIRT-07"]);
+    expect(suggestions).toEqual([
+      { sku: "DRESS_7", distance: 0, reason: "normalized" },
+      { sku: "DRESS-08", distance: 1, reason: "edit-distance" },
+    ]);
+  });
+
+  it("skips the SKU itself, duplicates and distant candidates", () => {
+    const suggestions = rankSkuSuggestions("ABC-1", ["abc-1", "ABC-2", "abc-2", "XYZ-999"]);
+    expect(suggestions.map((suggestion) => suggestion.sku)).toEqual(["ABC-2"]);
+  });
+
+  it("returns at most the limit, closest first", () => {
+    const candidates = ["AB-14", "AB-13", "AB-12", "AB-21"];
+    expect(rankSkuSuggestions("AB-11", candidates, 2).map((suggestion) => suggestion.sku)).toEqual([
+      "AB-12",
+      "AB-13",
+    ]);
+  });
+});
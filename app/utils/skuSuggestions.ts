@@ -0,0 +1,73 @@
+import type { SkuSuggestion } from "~/types";
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Normalise a SKU for loose comparison: case, separators and zero-padding are ignored.
+ * Example: "sku_007" and "SKU-7" both become "SKU7"
+ */
+export function normalizeSku(sku: string): string {
+  return sku
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "")
+    .replace(/(^|[A-Z])0+(?=\d)/g, "$1");
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Rank catalog SKUs that nearly match an unmatched SKU.
+ * Normalised matches (padding, separators, case) rank first, then by edit distance.
+ */
+export function rankSkuSuggestions(
+  sku: string,
+  candidates: string[],
+  limit = MAX_SUGGESTIONS
+): SkuSuggestion[] {
+  const target = sku.toUpperCase();
+  const normalizedTarget = normalizeSku(sku);
+  // Allow roughly one typo per four characters, but at least two
+  const maxDistance = Math.max(2, Math.floor(target.length / 4));
+
+  const suggestions: SkuSuggestion[] = [];
+  const seen = new Set<string>();
+
+  for (const candidate of candidates) {
+    const upper = candidate.toUpperCase();
+    if (!upper || upper === target || seen.has(upper)) continue;
+    seen.add(upper);
+
+    if (normalizeSku(upper) === normalizedTarget) {
+      suggestions.push({ sku: upper, distance: 0, reason: "normalized" });
+      continue;
+    }
+
+    const distance = editDistance(target, upper);
+    if (distance <= maxDistance) {
+      suggestions.push({ sku: upper, distance, reason: "edit-distance" });
+    }
+  }
+
+  return suggestions
+    .sort((a, b) => a.distance - b.distance || a.sku.localeCompare(b.sku))
+    .slice(0, limit);
+}
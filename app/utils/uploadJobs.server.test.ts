@@ -0,0 +1,110 @@
+import { Prisma } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { UploadSettings } from "~/types";
+import type { NewJobItem } from "./uploadJobs.server";
+
+// Shared with the mocks, which vi.mock hoists above the imports
+const { jobs, database } = vi.hoisted(() => ({
+  jobs: [] as Array<{ id: string; shop: string; idempotencyKey?: string }>,
+  database: { failure: null as Error | null },
+}));
+
+// In-memory stand-in for the job table, with its unique shop + idempotency key constraint
+vi.mock("~/db.server", async () => {
+  const { Prisma } = await import("@prisma/client");
+  const sameKey = (shop: string, idempotencyKey?: string) =>
+    jobs.find((job) => idempotencyKey && job.shop === shop && job.idempotencyKey === idempotencyKey);
+
+  return {
+    default: {
+      uploadJob: {
+        findUnique: async ({ where }: { where: { shop_idempotencyKey: { shop: string; idempotencyKey: string } } }) => {
+          const job = sameKey(where.shop_idempotencyKey.shop, where.shop_idempotencyKey.idempotencyKey);
+          return job ? { id: job.id } : null;
+        },
+        create: async ({ data }: { data: { id: string; shop: string; idempotencyKey?: string } }) => {
+          if (database.failure) throw database.failure;
+          if (sameKey(data.shop, data.idempotencyKey)) {
+            throw new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+              code: "P2002",
+              clientVersion: Prisma.prismaVersion.client,
+            });
+          }
+          jobs.push({ id: data.id, shop: data.shop, idempotencyKey: data.idempotencyKey });
+        },
+      },
+    },
+  };
+});
+
+const { createUploadJob, findJobByIdempotencyKey } = await import("./uploadJobs.server");
+
+const SHOP = "dress-shop.myshopify.com";
+// Only stored, never read by job creation
+const settings = {} as UploadSettings;
+
+const items: NewJobItem[] = [
+  {
+    originalFilename: "DRESS_1.jpg",
+    sku: "DRESS",
+    sortOrder: 1,
+    fileType: "image/jpeg",
+    fileSize: 1024,
+    filePath: "/tmp/DRESS_1.jpg",
+    isValid: true,
+  },
+];
+
+beforeEach(() => {
+  jobs.length = 0;
+  database.failure = null;
+});
+
+describe("findJobByIdempotencyKey", () => {
+  it("finds the job an earlier submission with the same key created", async () => {
+    await createUploadJob("job-1", SHOP, settings, items, "key-1");
+
+    expect(await findJobByIdempotencyKey(SHOP, "key-1")).toBe("job-1");
+    expect(await findJobByIdempotencyKey(SHOP, "key-2")).toBeNull();
+    expect(await findJobByIdempotencyKey("other-shop.myshopify.com", "key-1")).toBeNull();
+  });
+});
+
+describe("createUploadJob", () => {
+  it("returns the new job's ID", async () => {
+    expect(await createUploadJob("job-1", SHOP, settings, items, "key-1")).toBe("job-1");
+    expect(jobs.map((job) => job.id)).toEqual(["job-1"]);
+  });
+
+  it("returns the earlier job when a concurrent submission with the same key got there first", async () => {
+    // Both requests passed the lookup before either job existed
+    const [first, second] = await Promise.all([
+      createUploadJob("job-1", SHOP, settings, items, "key-1"),
+      createUploadJob("job-2", SHOP, settings, items, "key-1"),
+    ]);
+
+    expect([first, second]).toEqual(["job-1", "job-1"]);
+    expect(jobs.map((job) => job.id)).toEqual(["job-1"]);
+  });
+
+  it("keeps the same key apart across shops", async () => {
+    await createUploadJob("job-1", SHOP, settings, items, "key-1");
+
+    expect(await createUploadJob("job-2", "other-shop.myshopify.com", settings, items, "key-1")).toBe("job-2");
+  });
+
+  it("rethrows errors other than a repeated key", async () => {
+    database.failure = new Error("Database is locked");
+
+    await expect(createUploadJob("job-1", SHOP, settings, items, "key-1")).rejects.toThrow("Database is locked");
+  });
+
+  it("rethrows a unique constraint failure without a key to look up", async () => {
+    database.failure = new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+      code: "P2002",
+      clientVersion: Prisma.prismaVersion.client,
+    });
+
+    await expect(createUploadJob("job-1", SHOP, settings, items)).rejects.toThrow("Unique constraint failed");
+  });
+});
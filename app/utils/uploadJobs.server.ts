@@ -0,0 +1,299 @@
+import { Prisma } from "@prisma/client";
+import db from "~/db.server";
+import type {
+  ParsedFileData,
+  ProcessingResult,
+  UploadEvent,
+  UploadEventType,
+  UploadJobStatus,
+  UploadSettings,
+} from "~/types";
+import { generateSummary } from "./imageQueue.server";
+
+// Number of events returned with each status poll for the live log
+const RECENT_EVENT_COUNT = 50;
+
+export interface NewJobItem {
+  originalFilename: string;
+  sku: string;
+  sortOrder: number;
+  positionLabel?: string;
+  altText?: string;
+  fileType: string;
+  fileSize: number;
+  filePath: string | null;
+  resourceUrl?: string;
+  contentHash?: string;
+  isValid: boolean;
+  error?: string;
+}
+
+export interface StoredJob {
+  id: string;
+  shop: string;
+  settings: UploadSettings;
+}
+
+/**
+ * The job an earlier submission with the same idempotency key created, if any
+ */
+export async function findJobByIdempotencyKey(
+  shop: string,
+  idempotencyKey: string
+): Promise<string | null> {
+  const job = await db.uploadJob.findUnique({
+    where: { shop_idempotencyKey: { shop, idempotencyKey } },
+    select: { id: true },
+  });
+  return job?.id ?? null;
+}
+
+/**
+ * Persist a new upload job with one item per submitted file.
+ * Invalid files are recorded as finished errors right away.
+ * Returns the ID of the job that holds the submission, which is an earlier job
+ * when a concurrent request with the same idempotency key got there first.
+ */
+export async function createUploadJob(
+  jobId: string,
+  shop: string,
+  settings: UploadSettings,
+  items: NewJobItem[],
+  idempotencyKey?: string
+): Promise<string> {
+  try {
+    await insertUploadJob(jobId, shop, settings, items, idempotencyKey);
+    return jobId;
+  } catch (error) {
+    const existingJobId =
+      idempotencyKey &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+        ? await findJobByIdempotencyKey(shop, idempotencyKey)
+        : null;
+    if (!existingJobId) throw error;
+    return existingJobId;
+  }
+}
+
+async function insertUploadJob(
+  jobId: string,
+  shop: string,
+  settings: UploadSettings,
+  items: NewJobItem[],
+  idempotencyKey?: string
+): Promise<void> {
+  await db.uploadJob.create({
+    data: {
+      id: jobId,
+      shop,
+      settings: JSON.stringify(settings),
+      idempotencyKey,
+      items: {
+        create: items.map((item, index) => {
+          const invalidResult: ProcessingResult | null = item.isValid
+            ? null
+            : {
+                filename: item.originalFilename,
+                detectedSku: item.sku || "",
+                productFound: false,
+                status: "error",
+                errorDetails: item.error || "Invalid file",
+              };
+
+          return {
+            position: index,
+            originalFilename: item.originalFilename,
+            sku: item.sku,
+            sortOrder: item.sortOrder,
+            positionLabel: item.positionLabel,
+            altText: item.altText,
+            fileType: item.fileType,
+            fileSize: item.fileSize,
+            filePath: item.filePath,
+            resourceUrl: item.resourceUrl,
+            contentHash: item.contentHash,
+            isValid: item.isValid,
+            status: invalidResult ? "error" : "pending",
+            result: invalidResult ? JSON.stringify(invalidResult) : null,
+          };
+        }),
+      },
+    },
+  });
+}
+
+/**
+ * Claim the oldest job that still has work, skipping jobs already running in this process
+ * and shops that already have a running job
+ */
+export async function claimNextJob(
+  activeJobIds: string[],
+  busyShops: string[] = []
+): Promise<StoredJob | null> {
+  const job = await db.uploadJob.findFirst({
+    where: {
+      status: { in: ["pending", "processing"] },
+      id: { notIn: activeJobIds },
+      shop: { notIn: busyShops },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (!job) return null;
+
+  await db.uploadJob.update({
+    where: { id: job.id },
+    data: { status: "processing", startedAt: job.startedAt ?? new Date() },
+  });
+
+  return { id: job.id, shop: job.shop, settings: JSON.parse(job.settings) };
+}
+
+/**
+ * Load the items of a job that still need processing, without file contents
+ */
+export async function getPendingJobItems(jobId: string): Promise<ParsedFileData[]> {
+  const items = await db.uploadJobItem.findMany({
+    where: { jobId, status: "pending" },
+    orderBy: { position: "asc" },
+  });
+
+  return items.map((item) => ({
+    jobItemId: item.id,
+    originalFilename: item.originalFilename,
+    sku: item.sku,
+    sortOrder: item.sortOrder,
+    positionLabel: item.positionLabel ?? undefined,
+    altText: item.altText ?? undefined,
+    fileData: new ArrayBuffer(0),
+    fileType: item.fileType,
+    fileSize: item.fileSize,
+    filePath: item.filePath ?? undefined,
+    resourceUrl: item.resourceUrl ?? undefined,
+    contentHash: item.contentHash ?? undefined,
+    isValid: item.isValid,
+  }));
+}
+
+/**
+ * SKUs that already have finished items, i.e. were partially processed before a restart
+ */
+export async function getStartedSkus(jobId: string): Promise<Set<string>> {
+  const items = await db.uploadJobItem.findMany({
+    where: { jobId, isValid: true, status: { not: "pending" } },
+    select: { sku: true },
+    distinct: ["sku"],
+  });
+  return new Set(items.map((item) => item.sku));
+}
+
+/**
+ * Record the outcome of a single job item
+ */
+export async function recordItemResult(
+  jobItemId: string,
+  result: ProcessingResult
+): Promise<void> {
+  await db.uploadJobItem.update({
+    where: { id: jobItemId },
+    data: { status: result.status, result: JSON.stringify(result) },
+  });
+}
+
+/**
+ * Append a progress event to a job's log
+ */
+export async function recordJobEvent(
+  jobId: string,
+  file: Pick<ParsedFileData, "originalFilename" | "sku">,
+  type: UploadEventType,
+  message?: string
+): Promise<void> {
+  await db.uploadJobEvent.create({
+    data: { jobId, filename: file.originalFilename, sku: file.sku, type, message },
+  });
+}
+
+/**
+ * Mark a job as finished
+ */
+export async function completeUploadJob(jobId: string, error?: string): Promise<void> {
+  await db.uploadJob.update({
+    where: { id: jobId },
+    data: {
+      status: error ? "failed" : "completed",
+      error: error ?? null,
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Current status and results of a job, scoped to the requesting shop
+ */
+export async function getUploadJobStatus(
+  jobId: string,
+  shop: string
+): Promise<UploadJobStatus | null> {
+  const job = await db.uploadJob.findFirst({
+    where: { id: jobId, shop },
+    include: {
+      items: { orderBy: { position: "asc" } },
+      events: { orderBy: { id: "desc" }, take: RECENT_EVENT_COUNT },
+      _count: { select: { snapshots: true } },
+    },
+  });
+
+  if (!job) return null;
+
+  const { items } = job;
+  const results: ProcessingResult[] = items
+    .filter((item) => item.result)
+    .map((item) => JSON.parse(item.result as string));
+
+  return {
+    jobId: job.id,
+    status: job.status as UploadJobStatus["status"],
+    total: items.length,
+    processed: items.filter((item) => item.status !== "pending").length,
+    results,
+    summary: generateSummary(results),
+    events: job.events.map((event) => ({
+      type: event.type as UploadEvent["type"],
+      filename: event.filename,
+      sku: event.sku,
+      message: event.message ?? undefined,
+      createdAt: event.createdAt.toISOString(),
+    })),
+    error: job.error ?? undefined,
+    canUndo:
+      (job.status === "completed" || job.status === "failed") &&
+      !job.undoneAt &&
+      job._count.snapshots > 0,
+  };
+}
+
+/**
+ * Number of unfinished jobs per shop, including ones not yet started
+ */
+export async function countQueuedJobsByShop(): Promise<Map<string, number>> {
+  const groups = await db.uploadJob.groupBy({
+    by: ["shop"],
+    where: { status: { in: ["pending", "processing"] } },
+    _count: { _all: true },
+  });
+  return new Map(groups.map((group) => [group.shop, group._count._all]));
+}
+
+/**
+ * The shop's most recent job that has not finished yet, if any
+ */
+export async function getActiveJobId(shop: string): Promise<string | null> {
+  const job = await db.uploadJob.findFirst({
+    where: { shop, status: { in: ["pending", "processing"] } },
+    orderBy: { createdAt: "desc" },
+    select: { id: true },
+  });
+  return job?.id ?? null;
+}
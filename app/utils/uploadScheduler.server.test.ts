@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type * as Scheduler from "./uploadScheduler.server";
+
+/**
+ * Load a fresh scheduler, since limits are read from the environment when the module loads
+ */
+async function loadScheduler(env: Record<string, string> = {}): Promise<typeof Scheduler> {
+  vi.resetModules();
+  global.uploadScheduler = undefined;
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  return import("./uploadScheduler.server");
+}
+
+function planAdmin(plan: { displayName: string; partnerDevelopment?: boolean; shopifyPlus?: boolean }) {
+  return {
+    graphql: async () =>
+      Response.json({
+        data: { shop: { plan: { partnerDevelopment: false, shopifyPlus: false, ...plan } } },
+      }),
+  };
+}
+
+// A task that records when it starts and finishes when the test releases it
+function deferredTask(name: string, started: string[]) {
+  let release = () => {};
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return {
+    run: async () => {
+      started.push(name);
+      await done;
+      return name;
+    },
+    release: () => release(),
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("scheduleForShop", () => {
+  it("takes shops in turn so one backlog can't hold up the others", async () => {
+    const { scheduleForShop } = await loadScheduler({ UPLOAD_MAX_CONCURRENT: "1" });
+    const started: string[] = [];
+
+    const names = ["A0", "A1", "A2", "B0", "B1", "C0"];
+    const tasks = new Map(names.map((name) => [name, deferredTask(name, started)]));
+    const promises = names.map((name) => scheduleForShop(`${name[0]}.myshopify.com`, tasks.get(name)!.run));
+
+    // Only one task runs at a time; finish each as it starts
+    for (let count = 1; count <= names.length; count++) {
+      await vi.waitFor(() => expect(started).toHaveLength(count));
+      tasks.get(started[count - 1])!.release();
+    }
+    await Promise.all(promises);
+
+    expect(started).toEqual(["A0", "B0", "C0", "A1", "B1", "A2"]);
+  });
+
+  it("runs at most the plan's limit per shop while other shops keep going", async () => {
+    const { getQueueDepths, loadShopPlan, scheduleForShop } = await loadScheduler();
+    await loadShopPlan(planAdmin({ displayName: "Developer Preview", partnerDevelopment: true }), "dev.myshopify.com");
+    const started: string[] = [];
+
+    const dev = [deferredTask("dev-0", started), deferredTask("dev-1", started)];
+    const other = [deferredTask("other-0", started), deferredTask("other-1", started)];
+    const promises = [
+      ...dev.map((task) => scheduleForShop("dev.myshopify.com", task.run)),
+      ...other.map((task) => scheduleForShop("other.myshopify.com", task.run)),
+    ];
+
+    await vi.waitFor(() => expect(started).toHaveLength(3));
+    expect(started.sort()).toEqual(["dev-0", "other-0", "other-1"]);
+    expect(getQueueDepths()).toEqual([
+      { shop: "dev.myshopify.com", plan: "development", limit: 1, running: 1, waiting: 1 },
+      { shop: "other.myshopify.com", plan: undefined, limit: 2, running: 2, waiting: 0 },
+    ]);
+
+    dev[0].release();
+    await vi.waitFor(() => expect(started).toContain("dev-1"));
+    [...dev, ...other].forEach((task) => task.release());
+    expect(await Promise.all(promises)).toEqual(["dev-0", "dev-1", "other-0", "other-1"]);
+    expect(getQueueDepths()).toEqual([]);
+  });
+
+  it("passes task failures to the caller and keeps scheduling", async () => {
+    const { scheduleForShop } = await loadScheduler({ UPLOAD_MAX_CONCURRENT: "1" });
+
+    const failed = scheduleForShop("a.myshopify.com", async () => {
+      throw new Error("Upload failed");
+    });
+    const next = scheduleForShop("a.myshopify.com", async () => "next");
+
+    await expect(failed).rejects.toThrow("Upload failed");
+    await expect(next).resolves.toBe("next");
+  });
+});
+
+describe("plan limits", () => {
+  it("maps Shopify plans to limits", async () => {
+    const { getQueueDepths, loadShopPlan, scheduleForShop } = await loadScheduler();
+    await loadShopPlan(planAdmin({ displayName: "Shopify Plus", shopifyPlus: true }), "plus.myshopify.com");
+    await loadShopPlan(planAdmin({ displayName: "Advanced" }), "advanced.myshopify.com");
+
+    const release = deferredTask("", []);
+    const promises = ["plus", "advanced"].map((shop) => scheduleForShop(`${shop}.myshopify.com`, release.run));
+
+    expect(getQueueDepths().map(({ plan, limit }) => ({ plan, limit }))).toEqual([
+      { plan: "plus", limit: 6 },
+      { plan: "advanced", limit: 4 },
+    ]);
+    release.release();
+    await Promise.all(promises);
+  });
+
+  it("applies valid overrides from UPLOAD_PLAN_LIMITS", async () => {
+    const { getQueueDepths, scheduleForShop } = await loadScheduler({ UPLOAD_PLAN_LIMITS: '{"default": 3}' });
+
+    await scheduleForShop("a.myshopify.com", async () => {
+      expect(getQueueDepths()[0].limit).toBe(3);
+    });
+  });
+
+  it.each([
+    ["malformed JSON", "{plus: 6", "in JSON"],
+    ["a non-object", "[6]", "expected an object"],
+    ["a non-positive limit", '{"default": 0}', 'limit for "default"'],
+    ["a non-numeric limit", '{"plus": "6"}', 'limit for "plus"'],
+  ])("falls back to the defaults for %s", async (_, value, reason) => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const { getQueueDepths, scheduleForShop } = await loadScheduler({ UPLOAD_PLAN_LIMITS: value });
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining(reason));
+    await scheduleForShop("a.myshopify.com", async () => {
+      expect(getQueueDepths()[0].limit).toBe(2);
+    });
+  });
+});
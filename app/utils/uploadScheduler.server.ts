@@ -0,0 +1,180 @@
+import type { AdminContext } from "./adminClient.server";
+
+export interface ShopQueueDepth {
+  shop: string;
+  plan?: string;
+  limit: number;
+  running: number;
+  waiting: number;
+}
+
+interface ShopQueue {
+  running: number;
+  waiting: Array<() => void>;
+}
+
+// Product groups processed at once per shop, by plan. Override with UPLOAD_PLAN_LIMITS,
+// e.g. {"plus": 6, "advanced": 4, "default": 2}
+const DEFAULT_PLAN_LIMITS: Record<string, number> = {
+  plus: 6,
+  advanced: 4,
+  development: 1,
+  default: 2,
+};
+
+// Product groups processed at once across all shops. Override with UPLOAD_MAX_CONCURRENT.
+const DEFAULT_MAX_CONCURRENT = 8;
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Plan limits with the UPLOAD_PLAN_LIMITS overrides applied. A malformed value
+ * is ignored with a warning rather than breaking every route that schedules work.
+ */
+function readPlanLimits(): Record<string, number> {
+  const overrides = process.env.UPLOAD_PLAN_LIMITS;
+  if (!overrides) return DEFAULT_PLAN_LIMITS;
+
+  try {
+    const parsed: unknown = JSON.parse(overrides);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("expected an object of plan names to limits");
+    }
+    for (const [plan, limit] of Object.entries(parsed)) {
+      if (!isPositiveInteger(limit)) {
+        throw new Error(`limit for "${plan}" must be a positive whole number`);
+      }
+    }
+    return { ...DEFAULT_PLAN_LIMITS, ...(parsed as Record<string, number>) };
+  } catch (error) {
+    console.warn(
+      `Ignoring UPLOAD_PLAN_LIMITS, using the default limits: ${error instanceof Error ? error.message : error}`
+    );
+    return DEFAULT_PLAN_LIMITS;
+  }
+}
+
+const planLimits = readPlanLimits();
+const configuredMaxConcurrent = Number(process.env.UPLOAD_MAX_CONCURRENT);
+const maxConcurrent = isPositiveInteger(configuredMaxConcurrent) ? configuredMaxConcurrent : DEFAULT_MAX_CONCURRENT;
+
+declare global {
+  var uploadScheduler:
+    | { queues: Map<string, ShopQueue>; plans: Map<string, string>; running: number; lastShop?: string }
+    | undefined;
+}
+
+// Kept on global so dev-server reloads share the running counts
+const scheduler = global.uploadScheduler ?? {
+  queues: new Map<string, ShopQueue>(),
+  plans: new Map<string, string>(),
+  running: 0,
+};
+global.uploadScheduler = scheduler;
+
+function shopLimit(shop: string): number {
+  return planLimits[scheduler.plans.get(shop) ?? "default"] ?? planLimits.default ?? 1;
+}
+
+function getQueue(shop: string): ShopQueue {
+  let queue = scheduler.queues.get(shop);
+  if (!queue) {
+    queue = { running: 0, waiting: [] };
+    scheduler.queues.set(shop, queue);
+  }
+  return queue;
+}
+
+/**
+ * Start waiting tasks while there is capacity, taking shops in turn
+ * so a shop with a large backlog can't hold up the others
+ */
+function dispatch(): void {
+  let idleRounds = 0;
+  while (scheduler.running < maxConcurrent && scheduler.queues.size > 0) {
+    const shops = Array.from(scheduler.queues.keys());
+    // Continue after the shop served last; shops join and leave, so an index would skip or repeat one
+    const shop = shops[(shops.indexOf(scheduler.lastShop ?? "") + 1) % shops.length];
+    scheduler.lastShop = shop;
+
+    const queue = scheduler.queues.get(shop) as ShopQueue;
+    const start = queue.running < shopLimit(shop) ? queue.waiting.shift() : undefined;
+    if (start) {
+      queue.running++;
+      scheduler.running++;
+      idleRounds = 0;
+      start();
+    } else if (++idleRounds >= shops.length) {
+      // Every shop is at its limit or has nothing waiting
+      return;
+    }
+  }
+}
+
+/**
+ * Run a task in the shop's turn, within its plan's concurrency limit
+ */
+export function scheduleForShop<T>(shop: string, task: () => Promise<T>): Promise<T> {
+  const queue = getQueue(shop);
+
+  return new Promise<T>((resolve, reject) => {
+    queue.waiting.push(() => {
+      task()
+        .then(resolve, reject)
+        .finally(() => {
+          queue.running--;
+          scheduler.running--;
+          if (queue.running === 0 && queue.waiting.length === 0) {
+            scheduler.queues.delete(shop);
+          }
+          dispatch();
+        });
+    });
+    dispatch();
+  });
+}
+
+/**
+ * Look up the shop's plan so its tasks get the plan's concurrency limit
+ */
+export async function loadShopPlan(admin: AdminContext, shop: string): Promise<void> {
+  const response = await admin.graphql(
+    `#graphql
+    query GetShopPlan {
+      shop {
+        plan {
+          displayName
+          partnerDevelopment
+          shopifyPlus
+        }
+      }
+    }`
+  );
+
+  const data = await response.json();
+  const plan: { displayName: string; partnerDevelopment: boolean; shopifyPlus: boolean } | undefined =
+    data.data?.shop?.plan;
+  if (!plan) return;
+
+  const key = plan.shopifyPlus
+    ? "plus"
+    : plan.partnerDevelopment
+      ? "development"
+      : plan.displayName.toLowerCase().replace(/\s+/g, "-");
+  scheduler.plans.set(shop, key);
+}
+
+/**
+ * Running and waiting tasks for every shop with work in the scheduler
+ */
+export function getQueueDepths(): ShopQueueDepth[] {
+  return Array.from(scheduler.queues.entries(), ([shop, queue]) => ({
+    shop,
+    plan: scheduler.plans.get(shop),
+    limit: shopLimit(shop),
+    running: queue.running,
+    waiting: queue.waiting.length,
+  }));
+}
@@ -0,0 +1,194 @@
+import { unauthenticated } from "~/shopify.server";
+import type { ParsedFileData, ProductData, UploadSettings } from "~/types";
+import { createAdminClient, type AdminContext } from "./adminClient.server";
+import { getCatalogResolver } from "./catalogIndex.server";
+import { snapshotJobProducts } from "./jobUndo.server";
+import { groupFilesBySku, getUniqueSKUs } from "./fileParser";
+import { queryProductsBySKUs } from "./shopifyMedia.server";
+import { processUploadQueue } from "./imageQueue.server";
+import { readStoredFile, removeJobFiles } from "./fileStorage.server";
+import { saveDryRunPreview } from "./dryRunPreviews.server";
+import { loadShopPlan, scheduleForShop } from "./uploadScheduler.server";
+import {
+  claimNextJob,
+  completeUploadJob,
+  getPendingJobItems,
+  getStartedSkus,
+  recordItemResult,
+  recordJobEvent,
+  type StoredJob,
+} from "./uploadJobs.server";
+
+// How often the worker looks for jobs when it has not been notified
+const POLL_INTERVAL = 10000;
+
+interface WorkerState {
+  running: boolean; // Claiming jobs
+  activeJobIds: string[];
+  activeShops: string[];
+  timer?: ReturnType<typeof setInterval>;
+}
+
+declare global {
+  var uploadWorker: WorkerState | undefined;
+}
+
+// Kept on global so dev-server reloads don't start a second worker
+const worker: WorkerState = global.uploadWorker ?? { running: false, activeJobIds: [], activeShops: [] };
+global.uploadWorker = worker;
+
+/**
+ * Start the background worker. Jobs left unfinished by a previous process
+ * are picked up again because their pending items are still in the database.
+ */
+export function startUploadWorker(): void {
+  if (worker.timer) return;
+
+  worker.timer = setInterval(() => {
+    void drainQueue();
+  }, POLL_INTERVAL);
+
+  void drainQueue();
+}
+
+/**
+ * Wake the worker up after a job was created
+ */
+export function notifyUploadWorker(): void {
+  startUploadWorker();
+  void drainQueue();
+}
+
+async function drainQueue(): Promise<void> {
+  if (worker.running) return;
+  worker.running = true;
+
+  try {
+    // One job per shop at a time keeps each shop's jobs in order; jobs of different
+    // shops run side by side and share capacity through the upload scheduler
+    let job = await claimNextJob(worker.activeJobIds, worker.activeShops);
+    while (job) {
+      startJob(job);
+      job = await claimNextJob(worker.activeJobIds, worker.activeShops);
+    }
+  } catch (error) {
+    console.error("Upload worker error:", error);
+  } finally {
+    worker.running = false;
+  }
+}
+
+function startJob(job: StoredJob): void {
+  worker.activeJobIds.push(job.id);
+  worker.activeShops.push(job.shop);
+
+  void runJob(job).finally(() => {
+    worker.activeJobIds = worker.activeJobIds.filter((id) => id !== job.id);
+    worker.activeShops = worker.activeShops.filter((shop) => shop !== job.shop);
+    // The shop's next job can start now
+    void drainQueue();
+  });
+}
+
+/**
+ * Process the remaining items of a job. SKU groups are handed to the upload scheduler,
+ * which runs as many at once as the shop's plan allows; only running groups hold their
+ * files in memory.
+ */
+async function runJob(job: StoredJob): Promise<void> {
+  try {
+    const { admin: shopifyAdmin } = await unauthenticated.admin(job.shop);
+    const admin = createAdminClient(shopifyAdmin, job.shop);
+    await loadShopPlan(admin, job.shop).catch((error) => {
+      console.error(`Failed to load plan for ${job.shop}:`, error);
+    });
+    const pendingFiles = await getPendingJobItems(job.id);
+    const startedSkus = await getStartedSkus(job.id);
+
+    const groupedFiles = groupFilesBySku(pendingFiles);
+    const lookupErrors = new Map<string, string>();
+    const productMap = await queryProductsBySKUs(
+      admin,
+      getUniqueSKUs(pendingFiles),
+      job.settings,
+      await getCatalogResolver(job.shop, job.settings),
+      lookupErrors
+    );
+
+    // Capture the products' media before changing anything so the job can be undone
+    if (!job.settings.dryRun) {
+      await snapshotJobProducts(
+        admin,
+        job.id,
+        Object.keys(groupedFiles).flatMap((sku) => {
+          const product = productMap.get(sku);
+          return product ? [{ productId: product.id, productTitle: product.title, sku }] : [];
+        })
+      );
+    }
+
+    // Let every group finish before the job's files are removed, even if one fails
+    const outcomes = await Promise.allSettled(
+      Object.entries(groupedFiles).map(([sku, files]) =>
+        scheduleForShop(job.shop, () => processGroup(job, sku, files, productMap, lookupErrors, startedSkus, admin))
+      )
+    );
+    const failure = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === "rejected");
+    if (failure) throw failure.reason;
+
+    await completeUploadJob(job.id);
+  } catch (error) {
+    console.error(`Upload job ${job.id} failed:`, error);
+    await completeUploadJob(job.id, error instanceof Error ? error.message : "Unknown job error");
+  } finally {
+    await removeJobFiles(job.id);
+  }
+}
+
+async function processGroup(
+  job: StoredJob,
+  sku: string,
+  files: ParsedFileData[],
+  productMap: Map<string, ProductData>,
+  lookupErrors: Map<string, string>,
+  startedSkus: Set<string>,
+  admin: AdminContext
+): Promise<void> {
+  // A product that was partly uploaded before a restart already has some of the
+  // new images, which replacing again would delete along with the old media
+  const settings: UploadSettings =
+    startedSkus.has(sku) && job.settings.uploadStrategy === "replace"
+      ? { ...job.settings, uploadStrategy: "append" }
+      : job.settings;
+
+  // Dry runs only have files when they preview optimization
+  if (!settings.dryRun || settings.imageOptimization?.enabled) {
+    for (const file of files) {
+      if (file.filePath) {
+        file.fileData = await readStoredFile(file.filePath);
+      }
+    }
+  }
+
+  await processUploadQueue(
+    { [sku]: files },
+    productMap,
+    settings,
+    admin,
+    {
+      onResult: async (file, result) => {
+        if (file.jobItemId) {
+          await recordItemResult(file.jobItemId, result);
+        }
+      },
+      onEvent: (file, type, message) => recordJobEvent(job.id, file, type, message),
+      onPreview: (file, previewUrl) => saveDryRunPreview(job.id, job.shop, file.originalFilename, previewUrl),
+    },
+    lookupErrors
+  );
+
+  // Release file contents once the group is done
+  for (const file of files) {
+    file.fileData = new ArrayBuffer(0);
+  }
+}
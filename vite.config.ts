@@ -14,6 +14,8 @@ export default defineConfig({
     allowedHosts: [".trycloudflare.com"],
   },
   plugins: [
+    // Unit tests don't need the Remix build
+    !process.env.VITEST &&
     remix({
       future: {
         v3_fetcherPersist: true,